@@ -0,0 +1,127 @@
+/**
+ * Test suite for calendar validity checks using Bun test framework
+ * Tests day-of-month limits, leap years and weekday agreement
+ */
+
+import { test, expect, describe } from "bun:test";
+import { es } from "date-fns/locale";
+import { findCalendarIssue } from "./calendar.js";
+import {
+  parseDateStringToFormats,
+  type FormatInterpretation,
+  type ParseOptions,
+} from "./parse.js";
+
+const referenceDate = new Date(2026, 0, 1);
+
+function interpretation(
+  dateString: string,
+  format: string,
+  options: ParseOptions = {}
+): FormatInterpretation {
+  const found = parseDateStringToFormats(dateString, {
+    referenceDate,
+    ...options,
+  }).interpretations.find((i) => i.format === format);
+  if (!found) throw new Error(`No ${format} reading of ${dateString}`);
+  return found;
+}
+
+describe("Calendar Validity", () => {
+  describe("Day of Month", () => {
+    test("should accept days within their month", () => {
+      expect(
+        findCalendarIssue(
+          interpretation("04/30/2024", "MM/dd/yyyy"),
+          referenceDate
+        )
+      ).toBeUndefined();
+    });
+
+    test("should reject days past the end of their month", () => {
+      expect(
+        findCalendarIssue(
+          interpretation("April 31, 2024", "MMMM dd, yyyy"),
+          referenceDate
+        )
+      ).toBe("April 2024 has only 30 days");
+    });
+
+    test("should allow February 29 when the year is not given", () => {
+      expect(
+        findCalendarIssue(interpretation("02/29", "MM/dd"), referenceDate)
+      ).toBeUndefined();
+      expect(
+        findCalendarIssue(interpretation("02/30", "MM/dd"), referenceDate)
+      ).toBe("February has only 29 days");
+    });
+  });
+
+  describe("Leap Years", () => {
+    test("should follow the Gregorian leap year rules", () => {
+      const issue = (year: string) =>
+        findCalendarIssue(
+          interpretation(`02/29/${year}`, "MM/dd/yyyy"),
+          referenceDate
+        );
+
+      expect(issue("2024")).toBeUndefined();
+      expect(issue("2000")).toBeUndefined();
+      expect(issue("1900")).toBe("February 1900 has only 28 days");
+      expect(issue("2023")).toBe("February 2023 has only 28 days");
+    });
+
+    test("should resolve two-digit years before checking", () => {
+      expect(
+        findCalendarIssue(interpretation("2/29/24", "M/dd/yy"), referenceDate)
+      ).toBeUndefined();
+      expect(
+        findCalendarIssue(interpretation("2/29/23", "M/dd/yy"), referenceDate)
+      ).toBe("February 2023 has only 28 days");
+    });
+  });
+
+  describe("Weekday Agreement", () => {
+    test("should accept the weekday the date falls on", () => {
+      expect(
+        findCalendarIssue(
+          interpretation("Sat Mar 10 1990", "EEE MMM dd yyyy"),
+          referenceDate
+        )
+      ).toBeUndefined();
+    });
+
+    test("should name the weekday the date falls on", () => {
+      expect(
+        findCalendarIssue(
+          interpretation("Monday, March 10, 1990", "EEEE, MMMM dd, yyyy"),
+          referenceDate
+        )
+      ).toBe("March 10, 1990 falls on a Saturday, not a Monday");
+    });
+
+    test("should read weekday names in the interpretation's locale", () => {
+      expect(
+        findCalendarIssue(
+          interpretation(
+            "lunes, 10 de marzo de 1990",
+            "EEEE, dd 'de' MMMM 'de' yyyy",
+            {
+              locale: es,
+            }
+          ),
+          referenceDate
+        )
+      ).toBe("March 10, 1990 falls on a Saturday, not a Monday");
+    });
+
+    test("should not check a weekday without a year", () => {
+      expect(
+        findCalendarIssue(
+          interpretation("Monday, March 10", "EEEE, MMMM dd"),
+          referenceDate
+        )
+      ).toBeUndefined();
+    });
+  });
+});
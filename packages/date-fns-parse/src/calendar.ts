@@ -0,0 +1,85 @@
+/**
+ * Checks that the date an interpretation reads from its input exists on the
+ * calendar: the day fits its month, with February 29 only in leap years, and
+ * a weekday written next to the date is the one it falls on
+ * Example: "Monday, March 10, 1990" -> "March 10, 1990 falls on a Saturday,
+ * not a Monday"
+ */
+
+import { format, getDaysInMonth, isValid, parse } from "date-fns";
+
+import type { FormatInterpretation, TokenInfo } from "./parse.js";
+
+const MONTH_TOKEN = /^([ML]{1,4}|[ML]o)$/;
+const DAY_TOKEN = /^(d{1,2}|do)$/;
+const WEEKDAY_TOKEN = /^(E{1,4}|[ec]{3,4})$/;
+
+/**
+ * Parses a single field on its own, e.g. "March" with MMMM or "Mon" with EEE
+ */
+function parseField(
+  token: TokenInfo,
+  interpretation: FormatInterpretation,
+  referenceDate: Date
+): Date | undefined {
+  try {
+    const date = parse(token.originalValue, token.token, referenceDate, {
+      locale: interpretation.locale,
+    });
+    return isValid(date) ? date : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns why the interpretation's date cannot exist, or undefined when it
+ * can (or when the input does not name enough of it to tell). Without a
+ * year, February keeps its 29th day.
+ */
+function findCalendarIssue(
+  interpretation: FormatInterpretation,
+  referenceDate: Date
+): string | undefined {
+  const find = (regex: RegExp) =>
+    interpretation.tokens.find((t) => regex.test(t.token));
+  const monthToken = find(MONTH_TOKEN);
+  const dayToken = find(DAY_TOKEN);
+  if (!monthToken || !dayToken) return undefined;
+
+  const month = /^\d/.test(monthToken.originalValue)
+    ? parseInt(monthToken.originalValue, 10) - 1
+    : parseField(monthToken, interpretation, referenceDate)?.getMonth();
+  const day = parseInt(dayToken.originalValue, 10);
+  if (month === undefined || month < 0 || month > 11 || Number.isNaN(day)) {
+    return undefined;
+  }
+
+  const year = interpretation.resolvedYear;
+  const monthStart = new Date(2000, month, 1);
+  if (year !== undefined) monthStart.setFullYear(year);
+
+  const daysInMonth = getDaysInMonth(monthStart);
+  if (day > daysInMonth) {
+    const monthName = format(
+      monthStart,
+      year === undefined ? "MMMM" : "MMMM yyyy"
+    );
+    return `${monthName} has only ${daysInMonth} days`;
+  }
+
+  const weekdayToken = find(WEEKDAY_TOKEN);
+  if (!weekdayToken || year === undefined) return undefined;
+
+  const weekday = parseField(weekdayToken, interpretation, referenceDate);
+  const date = new Date(monthStart);
+  date.setDate(day);
+
+  if (weekday && weekday.getDay() !== date.getDay()) {
+    return `${format(date, "MMMM d, yyyy")} falls on a ${format(date, "EEEE")}, not a ${format(weekday, "EEEE")}`;
+  }
+
+  return undefined;
+}
+
+export { findCalendarIssue };
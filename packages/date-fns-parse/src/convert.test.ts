@@ -0,0 +1,281 @@
+/**
+ * Test suite for converting date-fns formats to other libraries using Bun test framework
+ * Tests token mapping, literal escaping and inexact token reporting per dialect
+ */
+
+import { test, expect, describe } from "bun:test";
+import {
+  convertFormat,
+  convertFromMoment,
+  convertInterpretation,
+} from "./convert.js";
+import { parseDateStringToFormats } from "./parse.js";
+
+describe("Format Conversion", () => {
+  describe("Token Mapping", () => {
+    test("should convert numeric dates and times", () => {
+      const formatString = "dd/MM/yyyy HH:mm:ss";
+
+      expect(convertFormat(formatString, "moment").format).toBe(
+        "DD/MM/YYYY HH:mm:ss"
+      );
+      expect(convertFormat(formatString, "luxon").format).toBe(
+        "dd/MM/yyyy HH:mm:ss"
+      );
+      expect(convertFormat(formatString, "strftime").format).toBe(
+        "%d/%m/%Y %H:%M:%S"
+      );
+      expect(convertFormat(formatString, "java").format).toBe(
+        "dd/MM/yyyy HH:mm:ss"
+      );
+      expect(convertFormat(formatString, "ldml").format).toBe(
+        "dd/MM/yyyy HH:mm:ss"
+      );
+    });
+
+    test("should convert month and weekday names", () => {
+      const formatString = "EEEE, MMMM d, yyyy h:mm aa";
+
+      expect(convertFormat(formatString, "moment").format).toBe(
+        "dddd, MMMM D, YYYY h:mm A"
+      );
+      expect(convertFormat(formatString, "strftime").format).toBe(
+        "%A, %B %d, %Y %I:%M %p"
+      );
+      expect(convertFormat(formatString, "dotnet").format).toBe(
+        "dddd, MMMM d, yyyy h\\:mm tt"
+      );
+    });
+
+    test("should convert ordinals and epoch timestamps for Moment", () => {
+      expect(convertFormat("MMMM do, yyyy", "moment").format).toBe(
+        "MMMM Do, YYYY"
+      );
+      expect(convertFormat("t", "moment").format).toBe("X");
+      expect(convertFormat("T", "luxon").format).toBe("x");
+    });
+
+    test("should convert fractional seconds by digit count", () => {
+      expect(convertFormat("ss.SSS", "moment").format).toBe("ss.SSS");
+      expect(convertFormat("ss.SSSSSS", "strftime").format).toBe("%S.%f");
+      expect(convertFormat("ss.SSSSSSS", "dotnet").format).toBe("ss.fffffff");
+      expect(convertFormat("ss.SS", "luxon").format).toBe("ss.uu");
+    });
+
+    test("should keep offset tokens that print Z in Java and LDML", () => {
+      const formatString = "yyyy-MM-dd'T'HH:mm:ssXXX";
+
+      const java = convertFormat(formatString, "java");
+      expect(java.format).toBe("yyyy-MM-dd'T'HH:mm:ssXXX");
+      expect(java.exact).toBe(true);
+      expect(convertFormat(formatString, "ldml").exact).toBe(true);
+    });
+
+    test("should prefix a lone .NET specifier with %", () => {
+      expect(convertFormat("d", "dotnet").format).toBe("%d");
+    });
+  });
+
+  describe("Literal Escaping", () => {
+    test("should escape literal words in each dialect's syntax", () => {
+      const formatString = "dd 'de' MMMM 'de' yyyy";
+
+      expect(convertFormat(formatString, "moment").format).toBe(
+        "DD[ de ]MMMM[ de ]YYYY"
+      );
+      expect(convertFormat(formatString, "luxon").format).toBe(
+        "dd' de 'MMMM' de 'yyyy"
+      );
+      expect(convertFormat(formatString, "strftime").format).toBe(
+        "%d de %B de %Y"
+      );
+      expect(convertFormat(formatString, "dotnet").format).toBe(
+        "dd 'de' MMMM 'de' yyyy"
+      );
+    });
+
+    test("should keep apostrophes in literals", () => {
+      expect(convertFormat("h 'o''clock'", "moment").format).toBe(
+        "h[ o'clock]"
+      );
+      expect(convertFormat("h 'o''clock'", "java").format).toBe("h' o''clock'");
+      expect(convertFormat("h 'o''clock'", "dotnet").format).toBe(
+        "h 'o'\\''clock'"
+      );
+    });
+
+    test("should keep closing brackets out of Moment and Day.js brackets", () => {
+      expect(convertFormat("yyyy'] at 'HH", "moment").format).toBe(
+        "YYYY][ at ]HH"
+      );
+      expect(convertFormat("yyyy'] at 'HH", "dayjs").format).toBe(
+        "YYYY][ at ]HH"
+      );
+      expect(convertFormat("'[v2]' yyyy", "dayjs").format).toBe("[[v2]] YYYY");
+    });
+
+    test("should quote reserved pattern characters for LDML dialects", () => {
+      expect(convertFormat("'['yyyy']'", "java").format).toBe("'['yyyy']'");
+      expect(convertFormat("'#'d '{'MM'}'", "ldml").format).toBe(
+        "'#'d' {'MM'}'"
+      );
+      expect(convertFormat("yyyy-MM", "luxon").format).toBe("yyyy-MM");
+    });
+
+    test("should escape percent signs for strftime", () => {
+      expect(convertFormat("yyyy '100%'", "strftime").format).toBe("%Y 100%%");
+    });
+
+    test("should escape .NET separators so they are not localized", () => {
+      expect(convertFormat("MM/dd/yyyy", "dotnet").format).toBe(
+        "MM\\/dd\\/yyyy"
+      );
+    });
+  });
+
+  describe("Inexact Tokens", () => {
+    test("should flag offsets that never print Z", () => {
+      const result = convertFormat("yyyy-MM-dd'T'HH:mm:ssXXX", "moment");
+
+      expect(result.format).toBe("YYYY-MM-DD[T]HH:mm:ssZ");
+      expect(result.exact).toBe(false);
+      expect(result.inexactTokens).toEqual([
+        {
+          token: "XXX",
+          replacement: "Z",
+          reason: 'never prints "Z" for UTC',
+        },
+      ]);
+    });
+
+    test("should flag unpadded strftime fields", () => {
+      const result = convertFormat("M/d/yyyy", "strftime");
+
+      expect(result.format).toBe("%m/%d/%Y");
+      expect(result.inexactTokens.map((t) => t.token)).toEqual(["M", "d"]);
+    });
+
+    test("should keep tokens with no equivalent and report them", () => {
+      const result = convertFormat("do MMMM yyyy", "strftime");
+
+      expect(result.format).toBe("do %B %Y");
+      expect(result.inexactTokens).toEqual([
+        { token: "do", reason: "no strftime equivalent" },
+      ]);
+    });
+
+    test("should flag Day.js tokens that need a plugin", () => {
+      const result = convertFormat("do MMMM yyyy", "dayjs");
+
+      expect(result.format).toBe("Do MMMM YYYY");
+      expect(result.inexactTokens).toEqual([
+        {
+          token: "do",
+          replacement: "Do",
+          reason: "needs the Day.js AdvancedFormat plugin",
+        },
+      ]);
+      expect(
+        convertFormat("RRRR-'W'II", "dayjs").inexactTokens.map((t) => t.reason)
+      ).toEqual([
+        "needs the Day.js AdvancedFormat and IsoWeek plugins",
+        "needs the Day.js AdvancedFormat and IsoWeek plugins",
+      ]);
+    });
+
+    test("should report tokens Day.js does not have", () => {
+      const result = convertFormat("yyyy.DDD", "dayjs");
+
+      expect(result.format).toBe("YYYY.DDD");
+      expect(result.inexactTokens).toEqual([
+        { token: "DDD", reason: "no Day.js equivalent" },
+      ]);
+    });
+
+    test("should not map the lone ISO week year to Moment", () => {
+      expect(convertFormat("R", "moment").inexactTokens).toEqual([
+        { token: "R", reason: "no Moment equivalent" },
+      ]);
+    });
+
+    test("should report formats without issues as exact", () => {
+      const result = convertFormat("yyyy-MM-dd", "strftime");
+      expect(result.exact).toBe(true);
+      expect(result.inexactTokens).toEqual([]);
+    });
+  });
+
+  describe("Interpretations", () => {
+    test("should convert an interpretation to every dialect", () => {
+      const [interpretation] =
+        parseDateStringToFormats("2024-01-15").interpretations;
+      const results = convertInterpretation(interpretation);
+
+      expect(results.map((r) => r.dialect)).toEqual([
+        "moment",
+        "dayjs",
+        "luxon",
+        "strftime",
+        "java",
+        "dotnet",
+        "ldml",
+      ]);
+      expect(results.map((r) => r.format)).toEqual([
+        "YYYY-MM-DD",
+        "YYYY-MM-DD",
+        "yyyy-MM-dd",
+        "%Y-%m-%d",
+        "yyyy-MM-dd",
+        "yyyy-MM-dd",
+        "yyyy-MM-dd",
+      ]);
+    });
+
+    test("should turn quoted timezone abbreviations into zone tokens", () => {
+      const [interpretation] = parseDateStringToFormats(
+        "Mar 10 2024 10:00 PST"
+      ).interpretations;
+      const formats = Object.fromEntries(
+        convertInterpretation(interpretation).map((r) => [r.dialect, r.format])
+      );
+
+      expect(interpretation.format).toEndWith("'PST'");
+      expect(formats.strftime).toEndWith("%Z");
+      expect(formats.java).toEndWith("z");
+      expect(formats.dotnet).toEndWith("'PST'");
+    });
+  });
+
+  describe("From Moment", () => {
+    test("should translate Moment tokens to date-fns", () => {
+      expect(convertFromMoment("DD/MM/YYYY HH:mm:ss.SSS").format).toBe(
+        "dd/MM/yyyy HH:mm:ss.SSS"
+      );
+      expect(convertFromMoment("dddd, MMMM Do YYYY h:mm A").format).toBe(
+        "EEEE, MMMM do yyyy h:mm aa"
+      );
+      expect(convertFromMoment("ddd D MMM h:mm a ZZ").format).toBe(
+        "EEE d MMM h:mm aaa xx"
+      );
+    });
+
+    test("should escape bracketed and bare literals", () => {
+      expect(convertFromMoment("YYYY-MM-DDTHH:mm").format).toBe(
+        "yyyy-MM-dd'T'HH:mm"
+      );
+      expect(convertFromMoment("[at] h A [o'clock]").format).toBe(
+        "'at' h aa 'o''clock'"
+      );
+    });
+
+    test("should report tokens without a date-fns equivalent", () => {
+      const result = convertFromMoment("HH:mm z");
+
+      expect(result.exact).toBe(false);
+      expect(result.format).toBe("HH:mm 'z'");
+      expect(result.inexactTokens).toEqual([
+        { token: "z", reason: "no date-fns equivalent" },
+      ]);
+    });
+  });
+});
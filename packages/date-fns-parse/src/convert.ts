@@ -0,0 +1,650 @@
+/**
+ * Converts date-fns format strings to the pattern syntax of other libraries
+ * Tokens without an exact counterpart are replaced by the closest pattern
+ * and reported, so callers can warn before the pattern is used as-is
+ * Example: "dd/MM/yyyy HH:mm" -> moment "DD/MM/YYYY HH:mm", strftime "%d/%m/%Y %H:%M"
+ */
+
+import {
+  escapeLiteral,
+  type FormatInterpretation,
+  type TokenInfo,
+} from "./parse.js";
+import { splitFormat } from "./tokenizer.js";
+
+type FormatDialect =
+  | "moment"
+  | "dayjs"
+  | "luxon"
+  | "strftime"
+  | "java"
+  | "dotnet"
+  | "ldml";
+
+/**
+ * A pattern string for an exact counterpart, or the closest pattern plus why
+ * it differs
+ */
+type TokenMapping = string | { pattern: string; note: string };
+
+interface InexactToken {
+  token: string;
+  /** Pattern emitted in its place, if any */
+  replacement?: string;
+  reason: string;
+}
+
+interface ConvertedFormat {
+  dialect: FormatDialect;
+  label: string;
+  format: string;
+  exact: boolean;
+  inexactTokens: InexactToken[];
+}
+
+/**
+ * A date-fns format translated from another library's pattern
+ */
+type ImportedFormat = Pick<
+  ConvertedFormat,
+  "format" | "exact" | "inexactTokens"
+>;
+
+interface DialectSpec {
+  label: string;
+  tokens: Record<string, TokenMapping>;
+  /** Mapping for a run of n fractional second digits (date-fns S…S) */
+  fraction: (digits: number) => TokenMapping | undefined;
+  /** Pattern for a timezone abbreviation that date-fns can only quote */
+  abbreviation?: string;
+  escapeLiteral: (text: string) => string;
+  finalize?: (pattern: string) => string;
+}
+
+const FORMAT_DIALECTS: FormatDialect[] = [
+  "moment",
+  "dayjs",
+  "luxon",
+  "strftime",
+  "java",
+  "dotnet",
+  "ldml",
+];
+
+function inexact(pattern: string, note: string): TokenMapping {
+  return { pattern, note };
+}
+
+/**
+ * A Day.js token that only prints once the named plugins are extended
+ */
+function dayjsPlugin(pattern: string, ...plugins: string[]): TokenMapping {
+  const noun = plugins.length > 1 ? "plugins" : "plugin";
+  return inexact(pattern, `needs the Day.js ${plugins.join(" and ")} ${noun}`);
+}
+
+/**
+ * Quotes text containing letters or other pattern characters the LDML way,
+ * which Luxon and Java share: 'text', with '' for an apostrophe. Java reads
+ * [ and ] as an optional section and reserves # { } as well.
+ */
+function quoteLDMLLiteral(text: string): string {
+  if (/[A-Za-z[\]#{}]/.test(text)) return `'${text.replace(/'/g, "''")}'`;
+  return text.replace(/'/g, "''");
+}
+
+/**
+ * Brackets literal text for Moment. Its brackets cannot contain [ or ], so
+ * those stay outside them, where Moment prints them as they are.
+ */
+function bracketMomentLiteral(text: string): string {
+  return text
+    .split(/([[\]])/)
+    .map((part) => (/[A-Za-z]/.test(part) ? `[${part}]` : part))
+    .join("");
+}
+
+/**
+ * Brackets literal text for Day.js, which ends a bracket at the first ], so
+ * only ] stays outside
+ */
+function bracketDayjsLiteral(text: string): string {
+  return text
+    .split("]")
+    .map((part) => (/[A-Za-z[]/.test(part) ? `[${part}]` : part))
+    .join("]");
+}
+
+// Tokens whose pattern is the same in date-fns and LDML
+const LDML_TOKENS = [
+  "y",
+  "yy",
+  "yyyy",
+  "M",
+  "MM",
+  "MMM",
+  "MMMM",
+  "MMMMM",
+  "L",
+  "LL",
+  "LLL",
+  "LLLL",
+  "d",
+  "dd",
+  "E",
+  "EE",
+  "EEE",
+  "EEEE",
+  "EEEEE",
+  "H",
+  "HH",
+  "h",
+  "hh",
+  "k",
+  "kk",
+  "K",
+  "KK",
+  "m",
+  "mm",
+  "s",
+  "ss",
+  "a",
+  "aa",
+  "aaaa",
+  "aaaaa",
+  "B",
+  "BB",
+  "BBBB",
+  "BBBBB",
+  "X",
+  "XX",
+  "XXX",
+  "x",
+  "xx",
+  "xxx",
+  "O",
+  "OOOO",
+  "Q",
+  "QQ",
+  "QQQ",
+  "QQQQ",
+  "w",
+  "ww",
+  "D",
+  "DD",
+  "DDD",
+];
+
+const DIALECTS: Record<FormatDialect, DialectSpec> = {
+  moment: {
+    label: "Moment",
+    tokens: {
+      y: "Y",
+      yy: "YY",
+      yyyy: "YYYY",
+      M: "M",
+      MM: "MM",
+      MMM: "MMM",
+      MMMM: "MMMM",
+      Mo: "Mo",
+      d: "D",
+      dd: "DD",
+      do: "Do",
+      E: "ddd",
+      EE: "ddd",
+      EEE: "ddd",
+      EEEE: "dddd",
+      EEEEEE: "dd",
+      i: "E",
+      H: "H",
+      HH: "HH",
+      h: "h",
+      hh: "hh",
+      k: "k",
+      kk: "kk",
+      m: "m",
+      mm: "mm",
+      s: "s",
+      ss: "ss",
+      a: "A",
+      aa: "A",
+      aaa: "a",
+      aaaa: inexact("a", 'prints "am"/"pm" rather than "a.m."/"p.m."'),
+      aaaaa: inexact("a", 'prints "am"/"pm" rather than "a"/"p"'),
+      X: inexact("Z", 'prints "+05:00" rather than "+05", and never "Z"'),
+      XX: inexact("ZZ", 'never prints "Z" for UTC'),
+      XXX: inexact("Z", 'never prints "Z" for UTC'),
+      x: inexact("ZZ", 'prints "+0500" rather than "+05"'),
+      xx: "ZZ",
+      xxx: "Z",
+      O: inexact("[GMT]Z", 'prints "GMT+05:00" rather than "GMT+5"'),
+      OOOO: "[GMT]Z",
+      Q: "Q",
+      Qo: "Qo",
+      w: "w",
+      ww: "ww",
+      wo: "wo",
+      I: "W",
+      II: "WW",
+      RRRR: "GGGG",
+      D: "DDD",
+      DDD: "DDDD",
+      t: "X",
+      T: "x",
+    },
+    fraction: (digits) => (digits <= 9 ? "S".repeat(digits) : undefined),
+    abbreviation: "z",
+    escapeLiteral: bracketMomentLiteral,
+  },
+
+  // Moment's syntax, but without ordinals of months, quarters or days of the
+  // year, and with several tokens left to plugins
+  dayjs: {
+    label: "Day.js",
+    tokens: {
+      y: inexact("YYYY", "pads years before 1000 to four digits"),
+      yy: "YY",
+      yyyy: "YYYY",
+      M: "M",
+      MM: "MM",
+      MMM: "MMM",
+      MMMM: "MMMM",
+      d: "D",
+      dd: "DD",
+      do: dayjsPlugin("Do", "AdvancedFormat"),
+      E: "ddd",
+      EE: "ddd",
+      EEE: "ddd",
+      EEEE: "dddd",
+      EEEEEE: "dd",
+      H: "H",
+      HH: "HH",
+      h: "h",
+      hh: "hh",
+      k: dayjsPlugin("k", "AdvancedFormat"),
+      kk: dayjsPlugin("kk", "AdvancedFormat"),
+      m: "m",
+      mm: "mm",
+      s: "s",
+      ss: "ss",
+      a: "A",
+      aa: "A",
+      aaa: "a",
+      aaaa: inexact("a", 'prints "am"/"pm" rather than "a.m."/"p.m."'),
+      aaaaa: inexact("a", 'prints "am"/"pm" rather than "a"/"p"'),
+      X: inexact("Z", 'prints "+05:00" rather than "+05", and never "Z"'),
+      XX: inexact("ZZ", 'never prints "Z" for UTC'),
+      XXX: inexact("Z", 'never prints "Z" for UTC'),
+      x: inexact("ZZ", 'prints "+0500" rather than "+05"'),
+      xx: "ZZ",
+      xxx: "Z",
+      O: inexact("[GMT]Z", 'prints "GMT+05:00" rather than "GMT+5"'),
+      OOOO: "[GMT]Z",
+      Q: dayjsPlugin("Q", "AdvancedFormat"),
+      w: dayjsPlugin("w", "AdvancedFormat", "WeekOfYear"),
+      ww: dayjsPlugin("ww", "AdvancedFormat", "WeekOfYear"),
+      wo: dayjsPlugin("wo", "AdvancedFormat", "WeekOfYear"),
+      I: dayjsPlugin("W", "AdvancedFormat", "IsoWeek"),
+      II: dayjsPlugin("WW", "AdvancedFormat", "IsoWeek"),
+      RRRR: dayjsPlugin("GGGG", "AdvancedFormat", "IsoWeek"),
+      t: dayjsPlugin("X", "AdvancedFormat"),
+      T: dayjsPlugin("x", "AdvancedFormat"),
+    },
+    // Day.js only prints milliseconds
+    fraction: (digits) => (digits === 3 ? "SSS" : undefined),
+    escapeLiteral: bracketDayjsLiteral,
+  },
+
+  luxon: {
+    label: "Luxon",
+    tokens: {
+      y: "y",
+      yy: "yy",
+      yyyy: "yyyy",
+      M: "M",
+      MM: "MM",
+      MMM: "MMM",
+      MMMM: "MMMM",
+      MMMMM: "MMMMM",
+      L: "L",
+      LL: "LL",
+      LLL: "LLL",
+      LLLL: "LLLL",
+      d: "d",
+      dd: "dd",
+      E: "EEE",
+      EE: "EEE",
+      EEE: "EEE",
+      EEEE: "EEEE",
+      EEEEE: "EEEEE",
+      i: "E",
+      H: "H",
+      HH: "HH",
+      h: "h",
+      hh: "hh",
+      m: "m",
+      mm: "mm",
+      s: "s",
+      ss: "ss",
+      a: "a",
+      aa: "a",
+      aaa: inexact("a", 'prints "AM"/"PM" rather than "am"/"pm"'),
+      X: inexact("Z", 'prints "+5" rather than "+05", and never "Z"'),
+      XX: inexact("ZZZ", 'never prints "Z" for UTC'),
+      XXX: inexact("ZZ", 'never prints "Z" for UTC'),
+      x: inexact("Z", 'prints "+5" rather than "+05"'),
+      xx: "ZZZ",
+      xxx: "ZZ",
+      O: "'GMT'Z",
+      OOOO: "'GMT'ZZ",
+      Q: "q",
+      QQ: "qq",
+      w: "n",
+      ww: "nn",
+      I: "W",
+      II: "WW",
+      R: "k",
+      RRRR: "kkkk",
+      D: "o",
+      DDD: "ooo",
+      t: "X",
+      T: "x",
+    },
+    fraction: (digits) => {
+      if (digits === 1) return "uuu";
+      if (digits === 2) return "uu";
+      if (digits === 3) return "SSS";
+      return inexact("SSS", "fractions are limited to milliseconds");
+    },
+    abbreviation: "ZZZZ",
+    escapeLiteral: quoteLDMLLiteral,
+  },
+
+  strftime: {
+    label: "strftime",
+    tokens: {
+      y: "%Y",
+      yy: "%y",
+      yyyy: "%Y",
+      M: inexact("%m", "zero-pads the month; %-m is glibc/macOS only"),
+      MM: "%m",
+      MMM: "%b",
+      MMMM: "%B",
+      d: inexact("%d", "zero-pads the day; %-d is glibc/macOS only"),
+      dd: "%d",
+      E: "%a",
+      EE: "%a",
+      EEE: "%a",
+      EEEE: "%A",
+      i: "%u",
+      H: inexact("%H", "zero-pads the hour; %-H is glibc/macOS only"),
+      HH: "%H",
+      h: inexact("%I", "zero-pads the hour; %-I is glibc/macOS only"),
+      hh: "%I",
+      m: inexact("%M", "zero-pads the minute; %-M is glibc/macOS only"),
+      mm: "%M",
+      s: inexact("%S", "zero-pads the second; %-S is glibc/macOS only"),
+      ss: "%S",
+      a: "%p",
+      aa: "%p",
+      aaa: inexact("%p", 'prints "AM"/"PM" rather than "am"/"pm"'),
+      XX: inexact("%z", 'never prints "Z" for UTC'),
+      XXX: inexact("%:z", 'needs Python 3.12+ and never prints "Z" for UTC'),
+      xx: "%z",
+      xxx: inexact("%:z", "needs Python 3.12+"),
+      w: inexact("%U", "always counts weeks from Sunday"),
+      ww: inexact("%U", "always counts weeks from Sunday"),
+      I: inexact("%V", "zero-pads the week"),
+      II: "%V",
+      RRRR: "%G",
+      D: inexact("%j", "zero-pads the day of year"),
+      DDD: "%j",
+      t: inexact("%s", "glibc/macOS only"),
+    },
+    fraction: (digits) =>
+      digits === 6
+        ? "%f"
+        : inexact("%f", "always prints six digits (microseconds)"),
+    abbreviation: "%Z",
+    escapeLiteral: (text) => text.replace(/%/g, "%%"),
+  },
+
+  java: {
+    label: "Java",
+    tokens: {
+      ...Object.fromEntries(LDML_TOKENS.map((token) => [token, token])),
+      aa: "a",
+      aaa: inexact("a", 'prints "AM"/"PM" rather than "am"/"pm"'),
+      aaaa: inexact("a", 'prints "AM"/"PM" rather than "a.m."/"p.m."'),
+      aaaaa: inexact("a", 'prints "AM"/"PM" rather than "a"/"p"'),
+      i: inexact("e", "follows the locale's first day of week"),
+      I: inexact("w", "follows the locale's week rules unless ISO is set"),
+      II: inexact("ww", "follows the locale's week rules unless ISO is set"),
+      RRRR: inexact(
+        "YYYY",
+        "follows the locale's week rules unless ISO is set"
+      ),
+    },
+    fraction: (digits) => (digits <= 9 ? "S".repeat(digits) : undefined),
+    abbreviation: "z",
+    escapeLiteral: quoteLDMLLiteral,
+  },
+
+  dotnet: {
+    label: ".NET",
+    tokens: {
+      y: "yyyy",
+      yy: "yy",
+      yyyy: "yyyy",
+      M: "M",
+      MM: "MM",
+      MMM: "MMM",
+      MMMM: "MMMM",
+      d: "d",
+      dd: "dd",
+      E: "ddd",
+      EE: "ddd",
+      EEE: "ddd",
+      EEEE: "dddd",
+      H: "H",
+      HH: "HH",
+      h: "h",
+      hh: "hh",
+      m: "m",
+      mm: "mm",
+      s: "s",
+      ss: "ss",
+      a: "tt",
+      aa: "tt",
+      aaa: inexact("tt", 'prints "AM"/"PM" rather than "am"/"pm"'),
+      aaaaa: inexact("t", 'prints "A"/"P" rather than "a"/"p"'),
+      X: inexact("zz", 'never prints "Z" for UTC'),
+      XX: inexact("zzz", 'prints "+05:00" rather than "+0500", and never "Z"'),
+      XXX: inexact("zzz", 'never prints "Z" for UTC'),
+      x: "zz",
+      xx: inexact("zzz", 'prints "+05:00" rather than "+0500"'),
+      xxx: "zzz",
+      OOOO: "'GMT'zzz",
+    },
+    fraction: (digits) => (digits <= 7 ? "f".repeat(digits) : undefined),
+    // Date and time separators and backslash/quote/percent are specifiers
+    escapeLiteral: (text) =>
+      text.replace(/[/:%\\"']/g, "\\$&").replace(/[A-Za-z]+/g, "'$&'"),
+    // A lone specifier would be read as a standard format ("d" = short date)
+    finalize: (pattern) => (pattern.length === 1 ? `%${pattern}` : pattern),
+  },
+
+  ldml: {
+    label: "Unicode LDML",
+    tokens: {
+      ...Object.fromEntries(
+        [...LDML_TOKENS, "b", "bb", "bbbb", "bbbbb"].map((token) => [
+          token,
+          token,
+        ])
+      ),
+      aaa: inexact("a", "LDML has no lowercase day period"),
+      i: inexact("e", "follows the locale's first day of week"),
+      I: inexact("w", "follows the locale's week rules"),
+      II: inexact("ww", "follows the locale's week rules"),
+      RRRR: inexact("YYYY", "follows the locale's week rules"),
+    },
+    fraction: (digits) => "S".repeat(digits),
+    abbreviation: "z",
+    escapeLiteral: quoteLDMLLiteral,
+  },
+};
+
+/**
+ * Renders a date-fns format in another library's pattern syntax. Pass the
+ * interpretation's tokens to turn quoted timezone abbreviations ('PST'),
+ * which date-fns cannot parse, into the dialect's zone name token.
+ */
+function convertFormat(
+  formatString: string,
+  dialect: FormatDialect,
+  tokens: TokenInfo[] = []
+): ConvertedFormat {
+  const spec = DIALECTS[dialect];
+  const abbreviations = new Set(
+    tokens.filter((t) => t.timezoneStyle === "abbreviation").map((t) => t.token)
+  );
+  const inexactTokens: InexactToken[] = [];
+  let pattern = "";
+  let literal = "";
+
+  const flushLiteral = () => {
+    if (literal) pattern += spec.escapeLiteral(literal);
+    literal = "";
+  };
+
+  for (const part of splitFormat(formatString)) {
+    if (part.quoted && spec.abbreviation && abbreviations.has(part.source)) {
+      flushLiteral();
+      pattern += spec.abbreviation;
+      continue;
+    }
+
+    if (!part.token) {
+      literal += part.text;
+      continue;
+    }
+
+    flushLiteral();
+
+    const mapping = /^S+$/.test(part.token)
+      ? spec.fraction(part.token.length)
+      : spec.tokens[part.token];
+
+    if (mapping === undefined) {
+      inexactTokens.push({
+        token: part.token,
+        reason: `no ${spec.label} equivalent`,
+      });
+      pattern += part.token;
+    } else if (typeof mapping === "string") {
+      pattern += mapping;
+    } else {
+      inexactTokens.push({
+        token: part.token,
+        replacement: mapping.pattern,
+        reason: mapping.note,
+      });
+      pattern += mapping.pattern;
+    }
+  }
+
+  flushLiteral();
+
+  return {
+    dialect,
+    label: spec.label,
+    format: spec.finalize ? spec.finalize(pattern) : pattern,
+    exact: inexactTokens.length === 0,
+    inexactTokens,
+  };
+}
+
+/**
+ * Converts an interpretation's format to every supported dialect, in
+ * FORMAT_DIALECTS order
+ */
+function convertInterpretation(
+  interpretation: FormatInterpretation
+): ConvertedFormat[] {
+  return FORMAT_DIALECTS.map((dialect) =>
+    convertFormat(interpretation.format, dialect, interpretation.tokens)
+  );
+}
+
+// Moment tokens, longest first
+const MOMENT_TOKENS = String.raw`YYYY|YY|Y|gggg|gg|GGGG|GG|Mo|M{1,4}|DDDo|Do|D{1,4}|do|d{1,4}|wo|ww?|Wo|WW?|Qo|Q|[Ee]|[aA]|HH?|hh?|kk?|mm?|ss?|S{1,9}|[Xx]|zz?|ZZ?`;
+
+// A Moment pattern is tokens, [bracketed] literals and any other character,
+// which Moment prints as-is
+const MOMENT_PARTS = new RegExp(
+  String.raw`\[[^\]]*\]|${MOMENT_TOKENS}|[^]`,
+  "g"
+);
+
+const MOMENT_TOKEN = new RegExp(`^(?:${MOMENT_TOKENS})$`);
+
+/**
+ * Translates a Moment / Day.js pattern to date-fns, using the exact
+ * mappings of the Moment dialect in reverse. Where several date-fns tokens
+ * map to one Moment token the last, canonical one wins (EEE for ddd, aa for
+ * A). Moment tokens without an exact date-fns counterpart are kept as
+ * quoted literals and reported.
+ */
+function convertFromMoment(momentFormat: string): ImportedFormat {
+  const tokens = new Map<string, string>();
+  for (const [token, mapping] of Object.entries(DIALECTS.moment.tokens)) {
+    if (typeof mapping === "string") tokens.set(mapping, token);
+  }
+
+  const inexactTokens: InexactToken[] = [];
+  let formatString = "";
+  let literal = "";
+
+  const flushLiteral = () => {
+    formatString += escapeLiteral(literal);
+    literal = "";
+  };
+
+  for (const part of momentFormat.match(MOMENT_PARTS) ?? []) {
+    if (part.startsWith("[")) {
+      literal += part.slice(1, -1);
+      continue;
+    }
+
+    const token = /^S+$/.test(part) ? part : tokens.get(part);
+    if (token) {
+      flushLiteral();
+      formatString += token;
+    } else if (MOMENT_TOKEN.test(part)) {
+      inexactTokens.push({ token: part, reason: "no date-fns equivalent" });
+      literal += part;
+    } else {
+      literal += part;
+    }
+  }
+
+  flushLiteral();
+
+  return {
+    format: formatString,
+    exact: inexactTokens.length === 0,
+    inexactTokens,
+  };
+}
+
+export {
+  convertFormat,
+  convertInterpretation,
+  convertFromMoment,
+  FORMAT_DIALECTS,
+  type FormatDialect,
+  type ConvertedFormat,
+  type ImportedFormat,
+  type InexactToken,
+};
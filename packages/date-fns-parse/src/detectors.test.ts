@@ -0,0 +1,176 @@
+/**
+ * Test suite for the token detector registry using Bun test framework
+ * Tests custom pattern detectors, priorities and the built-in detector set
+ */
+
+import { test, expect, describe } from "bun:test";
+import { createDetectorRegistry, defineDetector } from "./detectors.js";
+import {
+  BUILT_IN_DETECTORS,
+  getDateFormats,
+  parseDateStringToFormats,
+} from "./parse.js";
+
+const fiscalPeriod = defineDetector({
+  name: "fiscal-period",
+  priority: 80,
+  regex: /\bP(\d{2})\b/,
+  token: "'P'MM",
+  description: "Fiscal period, formatted as the month",
+  type: "month",
+  validate: (match) => Number(match[1]) >= 1 && Number(match[1]) <= 12,
+});
+
+const julianDate = defineDetector({
+  name: "julian",
+  priority: 80,
+  regex: /(?<!\d)(\d{2})(\d{3})(?!\d)/,
+  token: "yyDDD",
+  description: "Two-digit year and day of year",
+  type: "day_of_year",
+});
+
+const registry = createDetectorRegistry(BUILT_IN_DETECTORS).register(
+  fiscalPeriod,
+  julianDate
+);
+
+describe("Detector Registry", () => {
+  describe("Custom Detectors", () => {
+    test("should emit the token of a pattern detector", () => {
+      expect(getDateFormats("P07 2025", { detectors: registry })).toEqual([
+        "'P'MM yyyy",
+      ]);
+      expect(getDateFormats("25204", { detectors: registry })).toEqual([
+        "yyDDD",
+      ]);
+    });
+
+    test("should skip matches that fail validation", () => {
+      expect(getDateFormats("P13 2025", { detectors: registry })[0]).not.toBe(
+        "'P'MM yyyy"
+      );
+    });
+
+    test("should describe custom tokens", () => {
+      const result = parseDateStringToFormats("P07 2025", {
+        detectors: registry,
+      });
+
+      expect(result.interpretations[0].tokens[0]).toEqual({
+        originalValue: "P07",
+        token: "'P'MM",
+        description: "Fiscal period, formatted as the month",
+        position: [0, 3],
+      });
+    });
+
+    test("should build the token from the match", () => {
+      const quarter = defineDetector({
+        name: "half",
+        priority: 80,
+        regex: /\bH([12])\b/,
+        token: (match) => (match[1] === "1" ? "'H1'" : "'H2'"),
+        description: "Half year, kept as literal text",
+        type: "quarter",
+      });
+
+      expect(
+        getDateFormats("H2 2025", {
+          detectors:
+            createDetectorRegistry(BUILT_IN_DETECTORS).register(quarter),
+        })
+      ).toEqual(["'H2' yyyy"]);
+    });
+  });
+
+  describe("Priority", () => {
+    test("should drop matches overlapping a higher-priority detector", () => {
+      const placeholder = defineDetector({
+        name: "five-digits",
+        priority: 90,
+        regex: /(?<!\d)\d{5}(?!\d)/,
+        token: "'#'",
+        description: "Placeholder",
+        type: "day",
+      });
+
+      expect(
+        getDateFormats("25204", { detectors: registry.register(placeholder) })
+      ).toEqual(["'#'"]);
+    });
+
+    test("should let a higher-priority detector override ISO 8601", () => {
+      const dayBeforeMonth = defineDetector({
+        name: "year-day-month",
+        priority: 200,
+        regex: /^\d{8}$/,
+        token: "yyyyddMM",
+        description: "Compact year, day and month",
+        type: "day",
+      });
+
+      expect(getDateFormats("20250607")).toEqual(["yyyyMMdd"]);
+      expect(
+        getDateFormats("20250607", {
+          detectors: registry.register(dayBeforeMonth),
+        })
+      ).toEqual(["yyyyddMM"]);
+    });
+
+    test("should order detectors by priority", () => {
+      expect(registry.detectors.map((d) => d.name)).toEqual([
+        "iso8601",
+        "epoch",
+        "fiscal-period",
+        "julian",
+        "timezone",
+        "period",
+        "ordinal",
+        "meridiem",
+        "name",
+        "year",
+        "number",
+      ]);
+    });
+  });
+
+  describe("Registration", () => {
+    test("should replace a detector registered under the same name", () => {
+      const replaced = registry.register({ ...julianDate, priority: -5 });
+
+      expect(replaced.detectors.at(-1)?.name).toBe("julian");
+      expect(replaced.detectors).toHaveLength(registry.detectors.length);
+    });
+
+    test("should leave the original registry unchanged", () => {
+      const without = registry.unregister("fiscal-period");
+
+      expect(without.detectors.map((d) => d.name)).not.toContain(
+        "fiscal-period"
+      );
+      expect(registry.detectors.map((d) => d.name)).toContain("fiscal-period");
+    });
+
+    test("should only read ISO 8601 and epochs with their detectors", () => {
+      const empty = createDetectorRegistry([]);
+
+      expect(getDateFormats("2025-06-07", { detectors: empty })).not.toContain(
+        "yyyy-MM-dd"
+      );
+      expect(getDateFormats("1700000000", { detectors: empty })).not.toContain(
+        "t"
+      );
+    });
+
+    test("should parse without a removed built-in detector", () => {
+      const withoutOrdinals =
+        createDetectorRegistry(BUILT_IN_DETECTORS).unregister("ordinal");
+
+      expect(getDateFormats("3rd of May")).toEqual(["do 'of' MMMM"]);
+      expect(
+        getDateFormats("3rd of May", { detectors: withoutOrdinals })
+      ).toEqual(["d'rd of' MMMM"]);
+    });
+  });
+});
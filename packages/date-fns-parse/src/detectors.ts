@@ -0,0 +1,159 @@
+/**
+ * Registry of the token detectors the parser runs over an input. Built-in
+ * detectors (timezones, ordinals, names, numbers, ...) are registered the
+ * same way as custom ones, so a team can teach the parser its own formats
+ * Example: "P07" with a fiscal period detector -> "'P'MM"
+ */
+
+import type { Locale } from "date-fns";
+
+import type { MatchResult, TokenPattern } from "./parse.js";
+
+interface DetectorContext {
+  /** Matches already accepted from detectors that ran before this one */
+  matches: MatchResult[];
+  /** Locales whose names may occur in the input */
+  locales: Locale[];
+}
+
+interface TokenDetector {
+  /** Unique name; registering another detector under it replaces this one */
+  name: string;
+  /**
+   * Detectors run from the highest priority down, and a match is dropped
+   * when it overlaps a match from a detector of higher priority
+   */
+  priority: number;
+  detect: (dateString: string, context: DetectorContext) => MatchResult[];
+}
+
+/**
+ * A TokenPattern with callbacks, turned into a detector by defineDetector
+ */
+interface PatternDetector extends Omit<TokenPattern, "token" | "priority"> {
+  name: string;
+  priority: number;
+  /**
+   * Format for the whole match: a token ("yyyy"), several tokens with
+   * literals ("'P'MM"), or a function of the match returning either
+   */
+  token: string | ((match: RegExpExecArray) => string);
+  /** Rejects matches the regex allows but the field does not, e.g. "P13" */
+  validate?: (match: RegExpExecArray, dateString: string) => boolean;
+}
+
+interface DetectorRegistry {
+  /** Registered detectors, highest priority first */
+  readonly detectors: readonly TokenDetector[];
+  /** Returns a registry with the detectors added or replaced by name */
+  register: (...detectors: TokenDetector[]) => DetectorRegistry;
+  /** Returns a registry without the named detectors */
+  unregister: (...names: string[]) => DetectorRegistry;
+}
+
+/**
+ * Builds a detector from a regular expression. Every match that passes
+ * validation becomes one MatchResult whose value is its digits.
+ */
+function defineDetector(pattern: PatternDetector): TokenDetector {
+  const { name, priority, regex, token, validate, ...field } = pattern;
+
+  return {
+    name,
+    priority,
+    detect: (dateString) => {
+      const matches: MatchResult[] = [];
+      const globalRegex = new RegExp(
+        regex.source,
+        regex.flags.includes("g") ? regex.flags : regex.flags + "g"
+      );
+      let regexMatch: RegExpExecArray | null;
+
+      while ((regexMatch = globalRegex.exec(dateString)) !== null) {
+        if (regexMatch[0] === "") {
+          globalRegex.lastIndex++;
+          continue;
+        }
+        if (validate && !validate(regexMatch, dateString)) continue;
+
+        const emitted = typeof token === "function" ? token(regexMatch) : token;
+        matches.push({
+          match: regexMatch[0],
+          start: regexMatch.index,
+          end: regexMatch.index + regexMatch[0].length,
+          token: emitted,
+          pattern: { ...field, regex, token: emitted, priority },
+          description: field.description,
+          value: parseInt(regexMatch[0].replace(/\D/g, ""), 10) || 0,
+        });
+      }
+
+      return matches;
+    },
+  };
+}
+
+function createDetectorRegistry(
+  detectors: readonly TokenDetector[] = []
+): DetectorRegistry {
+  // Stable, so detectors of equal priority run in registration order
+  const sorted = [...detectors].sort((a, b) => b.priority - a.priority);
+
+  return {
+    detectors: sorted,
+    register: (...added) => {
+      const names = new Set(added.map((d) => d.name));
+      return createDetectorRegistry([
+        ...sorted.filter((d) => !names.has(d.name)),
+        ...added,
+      ]);
+    },
+    unregister: (...names) =>
+      createDetectorRegistry(sorted.filter((d) => !names.includes(d.name))),
+  };
+}
+
+/**
+ * Runs every detector over the input and returns the surviving matches in
+ * input order. Overlapping matches of equal priority are all kept; the
+ * format builder takes the first of them.
+ */
+function runDetectors(
+  registry: DetectorRegistry,
+  dateString: string,
+  locales: Locale[]
+): MatchResult[] {
+  const accepted: { match: MatchResult; priority: number }[] = [];
+
+  for (const detector of registry.detectors) {
+    const context: DetectorContext = {
+      matches: accepted.map((a) => a.match),
+      locales,
+    };
+
+    for (const match of detector.detect(dateString, context)) {
+      const overlapsHigher = accepted.some(
+        (a) =>
+          a.priority > detector.priority &&
+          match.start < a.match.end &&
+          match.end > a.match.start
+      );
+
+      if (!overlapsHigher) {
+        accepted.push({ match, priority: detector.priority });
+      }
+    }
+  }
+
+  return accepted.map((a) => a.match).sort((a, b) => a.start - b.start);
+}
+
+export {
+  defineDetector,
+  createDetectorRegistry,
+  runDetectors,
+  type TokenDetector,
+  type PatternDetector,
+  type DetectorContext,
+  type DetectorRegistry,
+};
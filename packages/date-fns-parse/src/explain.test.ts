@@ -0,0 +1,197 @@
+/**
+ * Test suite for explaining date-fns format strings using Bun test framework
+ * Tests tokenization around quoted literals, descriptions, previews and mistake detection
+ */
+
+import { test, expect, describe } from "bun:test";
+import { explainFormat } from "./explain.js";
+
+const referenceDate = new Date(2024, 2, 5, 14, 7, 9, 123);
+
+function issueTokens(formatString: string) {
+  return explainFormat(formatString, { referenceDate }).issues.map((i) => [
+    i.token,
+    i.severity,
+    i.suggestion,
+  ]);
+}
+
+describe("Format Explanation", () => {
+  describe("Tokenization", () => {
+    test("should split tokens and literals with positions", () => {
+      const result = explainFormat("dd/MM/yyyy", { referenceDate });
+
+      expect(result.tokens).toEqual([
+        {
+          originalValue: "05",
+          token: "dd",
+          description: "Zero-padded day (01-31)",
+          position: [0, 2],
+        },
+        {
+          originalValue: "03",
+          token: "MM",
+          description: "Zero-padded month (01-12)",
+          position: [3, 5],
+        },
+        {
+          originalValue: "2024",
+          token: "yyyy",
+          description: "Full year (e.g., 1990, 2023)",
+          position: [6, 10],
+        },
+      ]);
+      expect(result.literals).toEqual([
+        { text: "/", position: [2, 3] },
+        { text: "/", position: [5, 6] },
+      ]);
+    });
+
+    test("should not treat letters inside quotes as tokens", () => {
+      const result = explainFormat("h 'o''clock' a", { referenceDate });
+
+      expect(result.tokens.map((t) => t.token)).toEqual(["h", "a"]);
+      expect(result.literals.map((l) => l.text)).toContain("o'clock");
+      expect(result.issues).toEqual([]);
+      expect(result.preview).toBe("2 o'clock PM");
+    });
+
+    test("should keep ordinals and localized formats whole", () => {
+      const result = explainFormat("do MMMM PPpp", { referenceDate });
+      expect(result.tokens.map((t) => t.token)).toEqual(["do", "MMMM", "PPpp"]);
+      expect(result.tokens[2].description).toBe(
+        "Localized medium date and localized medium time"
+      );
+    });
+
+    test("should describe fractions and offsets like the parser", () => {
+      const result = explainFormat("ss.SSSxxx", { referenceDate });
+
+      expect(result.tokens[1].description).toBe(
+        "Fraction of second (3 digits)"
+      );
+      expect(result.tokens[2]).toMatchObject({
+        token: "xxx",
+        description: "ISO extended offset (e.g., +00:00, +02:00)",
+        timezoneStyle: "iso-extended",
+      });
+    });
+  });
+
+  describe("Preview", () => {
+    test("should render the whole format for the reference date", () => {
+      const result = explainFormat("EEEE, MMMM do, yyyy 'at' h:mm a", {
+        referenceDate,
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.preview).toBe("Tuesday, March 5th, 2024 at 2:07 PM");
+    });
+
+    test("should preview protected tokens so the mistake is visible", () => {
+      expect(explainFormat("YYYY-MM-DD", { referenceDate }).preview).toBe(
+        "2024-03-65"
+      );
+    });
+
+    test("should have no preview when date-fns cannot format it", () => {
+      expect(
+        explainFormat("yyyy A", { referenceDate }).preview
+      ).toBeUndefined();
+    });
+  });
+
+  describe("Mistakes", () => {
+    test("should flag week-numbering years and day of year", () => {
+      const result = explainFormat("YYYY-MM-DD", { referenceDate });
+
+      expect(result.isValid).toBe(false);
+      expect(issueTokens("YYYY-MM-DD")).toEqual([
+        ["YYYY", "error", "yyyy"],
+        ["DD", "error", "dd"],
+      ]);
+    });
+
+    test("should accept D and Y tokens the options opt into", () => {
+      const result = explainFormat("'day' D YYYY", {
+        referenceDate,
+        formatOptions: {
+          useAdditionalDayOfYearTokens: true,
+          useAdditionalWeekYearTokens: true,
+        },
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.issues).toEqual([]);
+    });
+
+    test("should flag minutes used as a month", () => {
+      expect(issueTokens("dd/mm/yyyy")).toEqual([["mm", "warning", "MM"]]);
+      expect(issueTokens("dd/MM/yyyy HH:mm")).toEqual([]);
+    });
+
+    test("should flag a month used as minutes", () => {
+      expect(issueTokens("HH:MM")).toEqual([["MM", "warning", "mm"]]);
+    });
+
+    test("should flag fractions used as seconds", () => {
+      expect(issueTokens("HH:mm:SS")).toEqual([["SS", "warning", "ss"]]);
+      expect(issueTokens("HH:mm:ss.SS")).toEqual([]);
+    });
+
+    test("should flag 12-hour clocks without a day period", () => {
+      expect(issueTokens("hh:mm")).toEqual([["hh", "warning", "HH"]]);
+      expect(issueTokens("hh:mm a")).toEqual([]);
+    });
+
+    test("should flag moment.js tokens", () => {
+      expect(issueTokens("Do MMMM yyyy")).toEqual([["Do", "warning", "do"]]);
+      expect(issueTokens("dddd")).toEqual([["dddd", "warning", "EEEE"]]);
+      expect(issueTokens("h:mm A")).toEqual([["A", "error", "aa"]]);
+    });
+
+    test("should flag unescaped letters that are not tokens", () => {
+      const result = explainFormat("yyyy W", { referenceDate });
+
+      expect(result.isValid).toBe(false);
+      expect(issueTokens("yyyy W")).toEqual([["W", "error", "'W'"]]);
+    });
+
+    test("should flag an unquoted T between date and time", () => {
+      expect(issueTokens("yyyy-MM-ddTHH:mm")).toEqual([
+        ["T", "warning", "'T'"],
+      ]);
+      expect(issueTokens("T")).toEqual([]);
+    });
+
+    test("should flag week-numbering years with calendar months", () => {
+      expect(issueTokens("RRRR-MM-dd")).toEqual([["RRRR", "warning", "yyyy"]]);
+      expect(issueTokens("RRRR-'W'II-i")).toEqual([]);
+    });
+
+    test("should flag ISO weeks with the calendar year", () => {
+      expect(issueTokens("yyyy-'W'II")).toEqual([["II", "warning", undefined]]);
+    });
+
+    test("should flag the extended year", () => {
+      expect(issueTokens("u-MM-dd")).toEqual([["u", "warning", "y"]]);
+    });
+
+    test("should describe the two-digit year pivot", () => {
+      const [issue] = explainFormat("MM/dd/yy", {
+        referenceDate: new Date(2000, 0, 1),
+      }).issues;
+
+      expect(issue.severity).toBe("warning");
+      expect(issue.message).toContain("50 → 1950 and 49 → 2049");
+    });
+
+    test("should flag unterminated quotes", () => {
+      expect(issueTokens("h 'o''clock")).toContainEqual([
+        "'o''clock",
+        "warning",
+        "'o''clock'",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Explains a date-fns format string token by token and flags common mistakes
+ * Example: "YYYY-MM-DD" -> YYYY: week-numbering year (use yyyy),
+ * MM: zero-padded month, DD: day of year (use dd)
+ */
+
+import { format, parse, type Locale } from "date-fns";
+
+import type { TimezoneStyle, TokenInfo } from "./parse.js";
+import { formatTokens, splitFormat } from "./tokenizer.js";
+
+interface ExplainOptions {
+  /** Date rendered in the preview, defaults to now */
+  referenceDate?: Date;
+  locale?: Locale;
+  /**
+   * Options the format is used with; D and Y tokens are only errors when
+   * these leave them off
+   */
+  formatOptions?: FormatOptions;
+}
+
+type IssueSeverity = "error" | "warning";
+
+interface FormatIssue {
+  token: string;
+  position: [number, number];
+  /** Errors make date-fns throw; warnings are valid but rarely intended */
+  severity: IssueSeverity;
+  message: string;
+  suggestion?: string;
+}
+
+/**
+ * Options date-fns needs before it parses or formats a format's day-of-year
+ * (D) and week-numbering year (Y) tokens
+ */
+interface FormatOptions {
+  useAdditionalDayOfYearTokens?: boolean;
+  useAdditionalWeekYearTokens?: boolean;
+}
+
+interface FormatLiteral {
+  text: string;
+  position: [number, number];
+}
+
+interface FormatExplanation {
+  format: string;
+  /** Tokens in order; originalValue is the token rendered for the preview date */
+  tokens: TokenInfo[];
+  literals: FormatLiteral[];
+  issues: FormatIssue[];
+  /** True when date-fns accepts the format with the given formatOptions */
+  isValid: boolean;
+  /** The whole format rendered for the preview date, when date-fns can */
+  preview?: string;
+}
+
+// Letters date-fns formats; any other unquoted latin letter makes it throw
+const FORMAT_LETTERS = /^[GyYRuQqMLwIdDEiecabBhHKkmsSXxOztTPp]$/;
+
+// moment.js tokens that are not date-fns tokens, with their replacement
+const FOREIGN_TOKENS: Record<string, string> = {
+  A: "aa",
+  Z: "xxx",
+  ZZ: "xx",
+  N: "G",
+};
+
+const EXACT_DESCRIPTIONS: Record<string, string> = {
+  G: "Era (AD)",
+  GG: "Era (AD)",
+  GGG: "Era (AD)",
+  GGGG: "Era name (Anno Domini)",
+  GGGGG: "Narrow era (A)",
+  y: "Year (e.g., 5, 1990)",
+  yy: "Two-digit year",
+  yyyy: "Full year (e.g., 1990, 2023)",
+  yo: "Ordinal year (1990th)",
+  Y: "Local week-numbering year",
+  YY: "Two-digit local week-numbering year",
+  YYYY: "Local week-numbering year (4 digits)",
+  R: "ISO week-numbering year",
+  RRRR: "ISO week-numbering year",
+  u: "Extended year",
+  Q: "Quarter (1-4)",
+  QQ: "Zero-padded quarter (01-04)",
+  QQQ: "Short quarter (Q1-Q4)",
+  QQQQ: "Full quarter (1st quarter)",
+  QQQQQ: "Narrow quarter (1-4)",
+  Qo: "Ordinal quarter (1st-4th)",
+  M: "Month (1-12)",
+  MM: "Zero-padded month (01-12)",
+  MMM: "Short month name",
+  MMMM: "Full month name",
+  MMMMM: "Narrow month name (J-D)",
+  Mo: "Ordinal month (1st-12th)",
+  w: "Local week of year (1-53)",
+  ww: "Zero-padded local week (01-53)",
+  wo: "Ordinal week of year (1st-53rd)",
+  I: "ISO week (1-53)",
+  II: "Zero-padded ISO week (01-53)",
+  Io: "Ordinal ISO week (1st-53rd)",
+  d: "Day (1-31)",
+  dd: "Zero-padded day (01-31)",
+  do: "Ordinal day of month (1st-31st)",
+  D: "Day of year (1-366)",
+  DD: "Zero-padded day of year (01-366)",
+  DDD: "Zero-padded day of year (001-366)",
+  Do: "Ordinal day of year (1st-366th)",
+  E: "Short day name",
+  EE: "Short day name",
+  EEE: "Short day name",
+  EEEE: "Full day name",
+  EEEEE: "Narrow day name (M)",
+  EEEEEE: "Two-letter day name (Mo)",
+  i: "ISO day of week (1-7, Monday is 1)",
+  ii: "Zero-padded ISO day of week (01-07)",
+  iii: "Short day name",
+  iiii: "Full day name",
+  iiiii: "Narrow day name (M)",
+  iiiiii: "Two-letter day name (Mo)",
+  io: "Ordinal ISO day of week (1st-7th)",
+  e: "Local day of week (1-7)",
+  ee: "Zero-padded local day of week (01-07)",
+  eo: "Ordinal local day of week (1st-7th)",
+  c: "Stand-alone local day of week (1-7)",
+  a: "AM/PM",
+  aa: "AM/PM",
+  aaa: "am/pm",
+  aaaa: "a.m./p.m.",
+  aaaaa: "a/p",
+  b: "AM/PM, noon or midnight",
+  bb: "AM/PM, noon or midnight",
+  bbb: "am/pm, noon or midnight",
+  bbbb: "a.m./p.m., noon or midnight",
+  bbbbb: "a/p, n or mi",
+  B: "Flexible day period (at night)",
+  BBBB: "Flexible day period (at night)",
+  BBBBB: "Narrow flexible day period",
+  h: "12-hour (1-12)",
+  hh: "Zero-padded 12-hour (01-12)",
+  ho: "Ordinal 12-hour (1st-12th)",
+  H: "24-hour (0-23)",
+  HH: "Zero-padded 24-hour (00-23)",
+  Ho: "Ordinal 24-hour (0th-23rd)",
+  K: "12-hour from 0 (0-11)",
+  KK: "Zero-padded 12-hour from 0 (00-11)",
+  k: "24-hour from 1 (1-24)",
+  kk: "Zero-padded 24-hour from 1 (01-24)",
+  m: "Minutes (0-59)",
+  mm: "Zero-padded minutes (00-59)",
+  mo: "Ordinal minutes (0th-59th)",
+  s: "Seconds (0-59)",
+  ss: "Zero-padded seconds (00-59)",
+  so: "Ordinal seconds (0th-59th)",
+  X: "ISO offset hours with Z (e.g., Z, +02)",
+  XX: "ISO basic offset with Z (e.g., Z, +0200)",
+  XXX: "ISO extended offset with Z (e.g., Z, +02:00)",
+  XXXX: "ISO basic offset with optional seconds and Z",
+  XXXXX: "ISO extended offset with optional seconds and Z",
+  x: "ISO offset hours (e.g., +00, +02)",
+  xx: "ISO basic offset (e.g., +0000, +0200)",
+  xxx: "ISO extended offset (e.g., +00:00, +02:00)",
+  xxxx: "ISO basic offset with optional seconds",
+  xxxxx: "ISO extended offset with optional seconds",
+  O: "Short localized GMT offset (e.g., GMT+2, GMT+5:30)",
+  OOOO: "Localized GMT offset (e.g., GMT+02:00)",
+  z: "Short GMT offset (e.g., GMT+2)",
+  zz: "Short GMT offset (e.g., GMT+2)",
+  zzz: "Short GMT offset (e.g., GMT+2)",
+  zzzz: "GMT offset (e.g., GMT+02:00)",
+  t: "Seconds timestamp (Unix epoch)",
+  T: "Milliseconds timestamp (Unix epoch)",
+  P: "Localized short date",
+  PP: "Localized medium date",
+  PPP: "Localized long date",
+  PPPP: "Localized full date",
+  p: "Localized short time",
+  pp: "Localized medium time",
+  ppp: "Localized long time",
+  pppp: "Localized full time",
+};
+
+const TIMEZONE_STYLES: Record<string, TimezoneStyle> = {
+  X: "iso-hours",
+  XX: "iso-basic",
+  XXX: "iso-extended",
+  x: "iso-hours",
+  xx: "iso-basic",
+  xxx: "iso-extended",
+  O: "gmt-short",
+  OOOO: "gmt-long",
+  z: "gmt-short",
+  zz: "gmt-short",
+  zzz: "gmt-short",
+  zzzz: "gmt-long",
+};
+
+/**
+ * Describes tokens outside the exact table: fraction runs, longer padded
+ * runs and combined localized date-time formats ("PPpp")
+ */
+function describeToken(token: string): string | undefined {
+  if (EXACT_DESCRIPTIONS[token]) return EXACT_DESCRIPTIONS[token];
+
+  const letter = token[0];
+  const digits = token.length;
+
+  if (letter === "S") {
+    return `Fraction of second (${digits} digit${digits === 1 ? "" : "s"})`;
+  }
+  if (/^P+p+$/.test(token)) {
+    const date = EXACT_DESCRIPTIONS[token.replace(/p+$/, "")];
+    const time = EXACT_DESCRIPTIONS[token.replace(/^P+/, "")];
+    return date && time ? `${date} and ${time.toLowerCase()}` : undefined;
+  }
+  if (/^[yYRudHhKkms]$/.test(letter)) {
+    return `${EXACT_DESCRIPTIONS[letter]} padded to ${digits} digits`;
+  }
+
+  return undefined;
+}
+
+function hasToken(tokens: TokenInfo[], pattern: RegExp): boolean {
+  return tokens.some((t) => pattern.test(t.token));
+}
+
+/**
+ * date-fns reads "yy" as the year closest to the reference date, so the
+ * century flips 50 years after it (reference 2026: "75" -> 2075, "76" -> 1976)
+ */
+function describeTwoDigitYearPivot(referenceDate: Date): string {
+  const last = String((referenceDate.getFullYear() + 49) % 100).padStart(
+    2,
+    "0"
+  );
+  const first = String((Number(last) + 1) % 100).padStart(2, "0");
+  const year = (value: string) =>
+    parse(value, "yy", referenceDate).getFullYear();
+
+  return `yy is a 2-digit year; date-fns maps ${first} → ${year(first)} and ${last} → ${year(last)} relative to ${referenceDate.getFullYear()}`;
+}
+
+/**
+ * Flags tokens that are valid but almost always a mix-up with moment.js or
+ * Java patterns, looking at neighbouring tokens for context. `unknown` holds
+ * the unrecognized letter runs, so a moment.js "A" still counts as AM/PM.
+ */
+function detectMistakes(
+  tokens: TokenInfo[],
+  literals: FormatLiteral[],
+  unknown: string[],
+  referenceDate: Date,
+  formatOptions: FormatOptions
+): FormatIssue[] {
+  const issues: FormatIssue[] = [];
+  const hasHour = hasToken(tokens, /^[hHkK]+$/);
+  const hasCalendarMonthOrDay = hasToken(tokens, /^(M+|Mo|L+|d+|do)$/);
+  const hasDateField = hasToken(tokens, /^(y+|d+|do|M+|L+|E+)$/);
+  const hasMinutes = hasToken(tokens, /^m+$/);
+  const literalAt = (position: number) =>
+    literals.find((l) => l.position[0] === position)?.text ?? "";
+
+  const issue = (
+    t: TokenInfo,
+    severity: IssueSeverity,
+    message: string,
+    suggestion?: string
+  ) =>
+    issues.push({
+      token: t.token,
+      position: t.position,
+      severity,
+      message,
+      ...(suggestion && { suggestion }),
+    });
+
+  tokens.forEach((t, i) => {
+    const previous = tokens[i - 1];
+    const followsColon =
+      previous !== undefined && literalAt(previous.position[1]) === ":";
+
+    if (
+      (t.token === "YYYY" || t.token === "YY") &&
+      !formatOptions.useAdditionalWeekYearTokens
+    ) {
+      issue(
+        t,
+        "error",
+        `${t.token} is the local week-numbering year, which differs from the calendar year around New Year; date-fns throws unless useAdditionalWeekYearTokens is set`,
+        t.token.replace(/Y/g, "y")
+      );
+    } else if (
+      (t.token === "D" || t.token === "DD") &&
+      !formatOptions.useAdditionalDayOfYearTokens
+    ) {
+      issue(
+        t,
+        "error",
+        `${t.token} is the day of the year, not the day of the month; date-fns throws unless useAdditionalDayOfYearTokens is set`,
+        t.token.replace(/D/g, "d")
+      );
+    } else if (/^(Y+|R+)$/.test(t.token) && hasCalendarMonthOrDay) {
+      issue(
+        t,
+        "warning",
+        `${t.token} is a week-numbering year used with a calendar month or day; around New Year it differs from the calendar year`,
+        "y".repeat(t.token.length)
+      );
+    } else if (
+      /^I+$/.test(t.token) &&
+      hasToken(tokens, /^y+$/) &&
+      !hasToken(tokens, /^R+$/)
+    ) {
+      issue(
+        t,
+        "warning",
+        `${t.token} is an ISO week used with the calendar year; early January and late December days belong to the neighbouring year's weeks, so pair it with RRRR`
+      );
+    } else if (/^u+$/.test(t.token)) {
+      issue(
+        t,
+        "warning",
+        `${t.token} is the extended year, which counts 1 BC as 0 and earlier years as negative; the calendar year is y`,
+        "y".repeat(t.token.length)
+      );
+    } else if (t.token === "yy") {
+      issue(t, "warning", describeTwoDigitYearPivot(referenceDate));
+    } else if (t.token === "Do") {
+      issue(
+        t,
+        "warning",
+        "Do is the ordinal day of the year (moment.js uses it for the day of the month)",
+        "do"
+      );
+    } else if (/^m{1,2}$/.test(t.token) && !hasHour && hasDateField) {
+      issue(
+        t,
+        "warning",
+        `${t.token} is minutes, but there is no hour in this format; months are M`,
+        t.token.toUpperCase()
+      );
+    } else if (/^M{1,2}$/.test(t.token) && followsColon && !hasMinutes) {
+      issue(
+        t,
+        "warning",
+        `${t.token} after a colon reads as minutes, but M is the month; minutes are m`,
+        t.token.toLowerCase()
+      );
+    } else if (
+      /^S{1,2}$/.test(t.token) &&
+      followsColon &&
+      /^m+$/.test(previous.token)
+    ) {
+      issue(
+        t,
+        "warning",
+        `${t.token} after minutes reads as seconds, but S is a fraction of a second; seconds are s`,
+        t.token.toLowerCase()
+      );
+    } else if (/^z+$/.test(t.token)) {
+      issue(
+        t,
+        "warning",
+        `date-fns prints ${t.token} as a GMT offset, not a zone name like PST, and cannot parse it`,
+        t.token.length === 4 ? "OOOO" : "O"
+      );
+    } else if (/^d{3,}$/.test(t.token)) {
+      issue(
+        t,
+        "warning",
+        `${t.token} is the day of the month padded to ${t.token.length} digits; day names are E`,
+        t.token.length === 3 ? "EEE" : "EEEE"
+      );
+    } else if (/^[tT]$/.test(t.token) && tokens.length > 1) {
+      issue(
+        t,
+        "warning",
+        `${t.token} is a Unix timestamp, which is never combined with other fields; quote a literal letter as '${t.token}'`,
+        `'${t.token}'`
+      );
+    } else if (
+      /^h{1,2}$/.test(t.token) &&
+      !hasToken(tokens, /^([abB]+|p+|P+p+)$/) &&
+      !unknown.some((part) => /^A+$/.test(part))
+    ) {
+      issue(
+        t,
+        "warning",
+        `${t.token} is a 12-hour clock but the format has no AM/PM (a); 24-hour time is H`,
+        t.token.toUpperCase()
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Returns the options date-fns needs for the format; empty when it has no D
+ * or Y tokens
+ */
+function formatOptionsFor(formatString: string): FormatOptions {
+  const tokens = formatTokens(formatString);
+
+  return {
+    ...(tokens.some((token) => /^D+$/.test(token)) && {
+      useAdditionalDayOfYearTokens: true,
+    }),
+    ...(tokens.some((token) => /^Y+$/.test(token)) && {
+      useAdditionalWeekYearTokens: true,
+    }),
+  };
+}
+
+/**
+ * Splits a date-fns format into tokens and literals, describes each token,
+ * reports mistakes and renders a preview. Unquoted letters that are not
+ * tokens and unterminated quotes are errors, as date-fns would throw on them.
+ */
+function explainFormat(
+  formatString: string,
+  options: ExplainOptions = {}
+): FormatExplanation {
+  const referenceDate = options.referenceDate ?? new Date();
+  const formatOptions = {
+    locale: options.locale,
+    ...formatOptionsFor(formatString),
+  };
+  const render = (pattern: string) => {
+    try {
+      return format(referenceDate, pattern, formatOptions);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const tokens: TokenInfo[] = [];
+  const literals: FormatLiteral[] = [];
+  const issues: FormatIssue[] = [];
+
+  for (const { source, token, text, quoted, position } of splitFormat(
+    formatString
+  )) {
+    if (quoted && source !== "''" && !/^'(''|[^'])*'$/.test(source)) {
+      issues.push({
+        token: source,
+        position,
+        severity: "warning",
+        message:
+          "Unterminated quoted literal; it runs to the end of the format",
+        suggestion: `${source}'`,
+      });
+    }
+
+    if (!token) {
+      literals.push({ text, position });
+      continue;
+    }
+
+    const description = describeToken(token);
+
+    if (!description) {
+      // Other lengths of a known letter still format, just not usefully
+      const isFormatLetter = FORMAT_LETTERS.test(token[0]);
+      const foreign = FOREIGN_TOKENS[token];
+
+      if (isFormatLetter) {
+        issues.push({
+          token,
+          position,
+          severity: "warning",
+          message: `${token} is not a standard length for ${token[0]}`,
+        });
+      } else {
+        issues.push({
+          token,
+          position,
+          severity: "error",
+          message: foreign
+            ? `${token} is a moment.js token; date-fns uses ${foreign}`
+            : `${token} is not a date-fns token; quote literal text`,
+          suggestion: foreign ?? `'${token}'`,
+        });
+      }
+      continue;
+    }
+
+    tokens.push({
+      originalValue: render(token) ?? "",
+      token,
+      description,
+      position,
+      ...(TIMEZONE_STYLES[token] && { timezoneStyle: TIMEZONE_STYLES[token] }),
+    });
+  }
+
+  const unknown = issues.map((issue) => issue.token);
+  issues.push(
+    ...detectMistakes(
+      tokens,
+      literals,
+      unknown,
+      referenceDate,
+      options.formatOptions ?? {}
+    )
+  );
+  issues.sort((a, b) => a.position[0] - b.position[0]);
+
+  return {
+    format: formatString,
+    tokens,
+    literals,
+    issues,
+    isValid: !issues.some((issue) => issue.severity === "error"),
+    preview: render(formatString),
+  };
+}
+
+export {
+  explainFormat,
+  formatOptionsFor,
+  type ExplainOptions,
+  type FormatExplanation,
+  type FormatIssue,
+  type FormatLiteral,
+  type IssueSeverity,
+  type FormatOptions,
+};
@@ -0,0 +1,76 @@
+/**
+ * Public entry point for date-fns-parse
+ * Infers date-fns format strings from formatted date strings, either one at a
+ * time or across a column of samples
+ * Example: getBestDateFormat("March 5, 2024") -> "MMMM d, yyyy"
+ */
+
+export {
+  parseDateStringToFormats,
+  getDateFormats,
+  getBestDateFormat,
+  checkRoundTrip,
+  BUILT_IN_DETECTORS,
+  type ParseResult,
+  type ParseOptions,
+  type YearToken,
+  type DateOrder,
+  type FieldOrder,
+  type FormatInterpretation,
+  type RoundTripFormat,
+  type RoundTripResult,
+  type TokenInfo,
+  type TokenType,
+  type TokenPattern,
+  type MatchResult,
+  type TimezoneStyle,
+  type EpochUnit,
+} from "./parse.js";
+
+export {
+  defineDetector,
+  createDetectorRegistry,
+  type TokenDetector,
+  type PatternDetector,
+  type DetectorContext,
+  type DetectorRegistry,
+} from "./detectors.js";
+
+export {
+  inferFormatFromSamples,
+  type SampleInferenceResult,
+  type FormatCandidate,
+  type SampleOutlier,
+} from "./infer.js";
+
+export {
+  parseDelimited,
+  parseTable,
+  detectColumnFormats,
+  type Table,
+  type ColumnFormat,
+} from "./tabular.js";
+
+export {
+  convertFormat,
+  convertInterpretation,
+  convertFromMoment,
+  FORMAT_DIALECTS,
+  type FormatDialect,
+  type ConvertedFormat,
+  type ImportedFormat,
+  type InexactToken,
+} from "./convert.js";
+
+export {
+  explainFormat,
+  formatOptionsFor,
+  type ExplainOptions,
+  type FormatExplanation,
+  type FormatIssue,
+  type FormatLiteral,
+  type IssueSeverity,
+  type FormatOptions,
+} from "./explain.js";
+
+export { splitFormat, formatTokens, type FormatPart } from "./tokenizer.js";
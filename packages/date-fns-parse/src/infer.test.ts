@@ -0,0 +1,107 @@
+/**
+ * Test suite for inferring one format from many samples using Bun test framework
+ * Tests cross-sample disambiguation, padding resolution and outlier reporting
+ */
+
+import { test, expect, describe } from "bun:test";
+import { fr } from "date-fns/locale";
+import { inferFormatFromSamples } from "./infer.js";
+
+describe("Multi-sample Format Inference", () => {
+  describe("Disambiguation", () => {
+    test("should let an unambiguous sample settle the order", () => {
+      const result = inferFormatFromSamples(["03/10/1990", "25/10/1990"]);
+      expect(result.format).toBe("dd/MM/yyyy");
+      expect(result.matchCount).toBe(2);
+      expect(result.outliers).toEqual([]);
+    });
+
+    test("should fall back to the preferred order when all are ambiguous", () => {
+      expect(inferFormatFromSamples(["03/10/1990", "04/11/1990"]).format).toBe(
+        "MM/dd/yyyy"
+      );
+      expect(
+        inferFormatFromSamples(["03/10/1990", "04/11/1990"], {
+          preferredOrder: "DMY",
+        }).format
+      ).toBe("dd/MM/yyyy");
+    });
+
+    test("should report match counts per candidate format", () => {
+      const result = inferFormatFromSamples([
+        "3/10/1990",
+        "12/25/1990",
+        "1/2/2000",
+      ]);
+      expect(result.candidates).toEqual([
+        { format: "M/d/yyyy", matches: 3 },
+        { format: "d/M/yyyy", matches: 2 },
+      ]);
+    });
+  });
+
+  describe("Padding Resolution", () => {
+    test("should use unpadded tokens when single digits appear", () => {
+      const result = inferFormatFromSamples(["12/25/1990", "3/5/1990"]);
+      expect(result.format).toBe("M/d/yyyy");
+    });
+
+    test("should use padded tokens when leading zeros appear", () => {
+      const result = inferFormatFromSamples(["12/25/1990", "03/05/1990"]);
+      expect(result.format).toBe("MM/dd/yyyy");
+    });
+
+    test("should keep two-digit fields padded", () => {
+      const result = inferFormatFromSamples(["12/25/1990", "11/13/1990"]);
+      expect(result.format).toBe("MM/dd/yyyy");
+    });
+  });
+
+  describe("Outliers", () => {
+    test("should list samples that do not fit the best format", () => {
+      const result = inferFormatFromSamples([
+        "12/25/1990",
+        "11/13/1990",
+        "not a date",
+        "1990-01-01",
+      ]);
+      expect(result.format).toBe("MM/dd/yyyy");
+      expect(result.outliers).toEqual([
+        { index: 2, value: "not a date" },
+        { index: 3, value: "1990-01-01" },
+      ]);
+      expect(result.confidence).toBe(50);
+    });
+
+    test("should flag samples with conflicting padding", () => {
+      const result = inferFormatFromSamples([
+        "03/25/1990",
+        "04/13/1990",
+        "5/13/1990",
+      ]);
+      expect(result.format).toBe("MM/dd/yyyy");
+      expect(result.outliers).toEqual([{ index: 2, value: "5/13/1990" }]);
+    });
+
+    test("should ignore blank samples", () => {
+      const result = inferFormatFromSamples(["12/25/1990", "", "  "]);
+      expect(result.sampleCount).toBe(1);
+      expect(result.outliers).toEqual([]);
+    });
+  });
+
+  describe("Return Value Structure", () => {
+    test("should return the matched locale", () => {
+      const result = inferFormatFromSamples(["10 mars 2024", "3 avril 2024"]);
+      expect(result.format).toBe("d MMMM yyyy");
+      expect(result.locale).toBe(fr);
+    });
+
+    test("should return no format for no samples", () => {
+      const result = inferFormatFromSamples([]);
+      expect(result.format).toBeUndefined();
+      expect(result.matchCount).toBe(0);
+      expect(result.confidence).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Infers a single date-fns format for a column of date strings
+ * Each sample is parsed on its own; readings are then intersected across
+ * samples, so one unambiguous value (e.g. "25/10/1990") settles the order for
+ * ambiguous siblings (e.g. "03/10/1990")
+ */
+
+import type { Locale } from "date-fns";
+
+import {
+  parseDateStringToFormats,
+  type FormatInterpretation,
+  type ParseOptions,
+} from "./parse.js";
+import { splitFormat } from "./tokenizer.js";
+
+interface FormatCandidate {
+  format: string;
+  matches: number;
+  locale?: Locale;
+}
+
+interface SampleOutlier {
+  index: number;
+  value: string;
+}
+
+interface SampleInferenceResult {
+  format?: string;
+  matchCount: number;
+  sampleCount: number;
+  confidence: number;
+  candidates: FormatCandidate[];
+  outliers: SampleOutlier[];
+  locale?: Locale;
+}
+
+// Numeric tokens whose padded and unpadded forms read the same values
+const PADDABLE_TOKENS = /^(MM?|dd?|HH?|hh?|mm?|ss?)$/;
+
+/**
+ * Format with padding removed ("MM/dd/yyyy" -> "M/d/yyyy"), used to group
+ * readings that only differ in how a sample happened to be padded
+ */
+function canonicalFormat(formatString: string): string {
+  return splitFormat(formatString)
+    .map(({ source }) => (PADDABLE_TOKENS.test(source) ? source[0] : source))
+    .join("");
+}
+
+function paddableValues(interpretation: FormatInterpretation): string[] {
+  return interpretation.tokens
+    .filter((t) => PADDABLE_TOKENS.test(t.token))
+    .map((t) => t.originalValue);
+}
+
+/**
+ * Picks padding per field from every value observed for it: a leading zero
+ * means padded, otherwise any single-digit value means unpadded, and fields
+ * that were always two digits wide stay padded
+ */
+function resolvePadding(
+  canonical: string,
+  readings: FormatInterpretation[]
+): { format: string; padded: boolean[] } {
+  const padded: boolean[] = [];
+  const values = readings.map(paddableValues);
+  let field = 0;
+
+  const format = splitFormat(canonical)
+    .map(({ source: part }) => {
+      if (!PADDABLE_TOKENS.test(part)) return part;
+
+      const observed = values.map((v) => v[field]).filter(Boolean);
+      const isPadded =
+        observed.some((v) => v.length === 2 && v.startsWith("0")) ||
+        !observed.some((v) => v.length === 1);
+      padded.push(isPadded);
+      field++;
+
+      return isPadded ? part + part : part;
+    })
+    .join("");
+
+  return { format, padded };
+}
+
+function fitsPadding(
+  interpretation: FormatInterpretation,
+  padded: boolean[]
+): boolean {
+  return paddableValues(interpretation).every((value, i) =>
+    padded[i]
+      ? value.length === 2
+      : value.length === 1 || !value.startsWith("0")
+  );
+}
+
+/**
+ * Infers the format shared by a list of date strings (e.g. a CSV column).
+ * Every sample's interpretations from `parseDateStringToFormats` are grouped
+ * by format regardless of padding; the format matched by the most samples
+ * wins, with ties going to the higher summed confidence. Padding is then
+ * resolved from all observed values and samples that do not round-trip
+ * through the final format are reported as outliers. Blank samples are
+ * ignored.
+ */
+function inferFormatFromSamples(
+  samples: string[],
+  options: ParseOptions = {}
+): SampleInferenceResult {
+  const parsed = samples
+    .map((value, index) => ({ value, index }))
+    .filter(({ value }) => typeof value === "string" && value.trim() !== "")
+    .map(({ value, index }) => ({
+      value,
+      index,
+      readings: new Map<string, FormatInterpretation>(),
+    }));
+
+  const totals = new Map<string, { samples: number; confidence: number }>();
+
+  for (const sample of parsed) {
+    const result = parseDateStringToFormats(sample.value, options);
+
+    for (const interpretation of result.interpretations) {
+      // Readings without tokens are just the sample quoted back as literal
+      if (!interpretation.roundTrips || interpretation.tokens.length === 0) {
+        continue;
+      }
+
+      const canonical = canonicalFormat(interpretation.format);
+      if (sample.readings.has(canonical)) continue;
+
+      sample.readings.set(canonical, interpretation);
+      const total = totals.get(canonical) ?? { samples: 0, confidence: 0 };
+      totals.set(canonical, {
+        samples: total.samples + 1,
+        confidence: total.confidence + interpretation.confidence,
+      });
+    }
+  }
+
+  const ranked = [...totals.entries()].sort(
+    ([, a], [, b]) => b.samples - a.samples || b.confidence - a.confidence
+  );
+
+  const candidates = ranked.map(([canonical]) => {
+    const readings = parsed.flatMap(
+      (sample) => sample.readings.get(canonical) ?? []
+    );
+    const { format, padded } = resolvePadding(canonical, readings);
+    const matching = parsed.filter((sample) => {
+      const reading = sample.readings.get(canonical);
+      return reading !== undefined && fitsPadding(reading, padded);
+    });
+
+    return {
+      candidate: {
+        format,
+        matches: matching.length,
+        ...(readings[0]?.locale && { locale: readings[0].locale }),
+      },
+      matching,
+    };
+  });
+
+  candidates.sort((a, b) => b.candidate.matches - a.candidate.matches);
+
+  const best = candidates[0];
+  const outliers = parsed
+    .filter((sample) => !best?.matching.includes(sample))
+    .map(({ index, value }) => ({ index, value }));
+  const matchCount = best?.candidate.matches ?? 0;
+
+  return {
+    format: best?.candidate.format,
+    matchCount,
+    sampleCount: parsed.length,
+    confidence:
+      parsed.length === 0 ? 0 : Math.round((matchCount / parsed.length) * 100),
+    candidates: candidates.map(({ candidate }) => candidate),
+    outliers,
+    locale: best?.candidate.locale,
+  };
+}
+
+export {
+  inferFormatFromSamples,
+  type SampleInferenceResult,
+  type FormatCandidate,
+  type SampleOutlier,
+};
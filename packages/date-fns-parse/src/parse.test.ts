@@ -0,0 +1,971 @@
+/**
+ * Comprehensive test suite for the date format parser using Bun test framework
+ * Tests US format prioritization, ambiguity detection, and edge cases
+ */
+
+import { test, expect, describe } from "bun:test";
+import { format } from "date-fns";
+import { de, enGB, enUS, es, fr } from "date-fns/locale";
+import {
+  parseDateStringToFormats,
+  getDateFormats,
+  getBestDateFormat,
+  checkRoundTrip,
+} from "./parse.js";
+
+describe("Date Format Parser", () => {
+  describe("US Format Prioritization", () => {
+    test("should prioritize US format MM/dd/yyyy over dd/MM/yyyy", () => {
+      const formats = getDateFormats("03/10/1990");
+      expect(formats).toEqual(["MM/dd/yyyy", "dd/MM/yyyy"]);
+      expect(formats[0]).toBe("MM/dd/yyyy"); // US format first
+    });
+
+    test("should prioritize US format M/d/yy over d/M/yy", () => {
+      const formats = getDateFormats("3/5/90");
+      expect(formats).toEqual(["M/d/yy", "d/M/yy"]);
+      expect(formats[0]).toBe("M/d/yy"); // US format first
+    });
+
+    test("should return only US format when day > 12 (unambiguous)", () => {
+      const formats = getDateFormats("12/25/1990");
+      expect(formats).toEqual(["MM/dd/yyyy"]);
+    });
+
+    test("should return only international format when month > 12 (unambiguous)", () => {
+      const formats = getDateFormats("25/12/1990");
+      expect(formats).toEqual(["dd/MM/yyyy"]);
+    });
+
+    test("getBestDateFormat should return US format first", () => {
+      const best = getBestDateFormat("03/10/1990");
+      expect(best).toBe("MM/dd/yyyy");
+    });
+  });
+
+  describe("Regional Order Preference", () => {
+    test("should rank day-first readings first for DMY", () => {
+      const result = parseDateStringToFormats("03/10/1990", {
+        preferredOrder: "DMY",
+      });
+      expect(result.interpretations.map((i) => i.format)).toEqual([
+        "dd/MM/yyyy",
+        "MM/dd/yyyy",
+      ]);
+      expect(result.interpretations[0].confidence).toBeGreaterThan(
+        result.interpretations[1].confidence
+      );
+    });
+
+    test("should keep month-first readings first for YMD", () => {
+      const formats = getDateFormats("1990/03/10", { preferredOrder: "YMD" });
+      expect(formats[0]).toBe("yyyy/MM/dd");
+    });
+
+    test("should derive the order from a single locale", () => {
+      expect(getDateFormats("03/10/1990", { locale: enGB })[0]).toBe(
+        "dd/MM/yyyy"
+      );
+      expect(getDateFormats("03/10/1990", { locale: enUS })[0]).toBe(
+        "MM/dd/yyyy"
+      );
+    });
+
+    test("should let an explicit order win over the locale", () => {
+      const formats = getDateFormats("03/10/1990", {
+        locale: enGB,
+        preferredOrder: "MDY",
+      });
+      expect(formats[0]).toBe("MM/dd/yyyy");
+    });
+
+    test("should not affect unambiguous dates", () => {
+      expect(getDateFormats("12/25/1990", { preferredOrder: "DMY" })).toEqual([
+        "MM/dd/yyyy",
+      ]);
+    });
+  });
+
+  describe("Year Position Ambiguity", () => {
+    test("should offer year/day/month for year-first dates", () => {
+      const result = parseDateStringToFormats("2023/05/04");
+      expect(result.interpretations.map((i) => i.format)).toEqual([
+        "yyyy/MM/dd",
+        "yyyy/dd/MM",
+      ]);
+      expect(result.interpretations.map((i) => i.dateOrder)).toEqual([
+        "YMD",
+        "YDM",
+      ]);
+    });
+
+    test("should show every valid reading of two-digit years", () => {
+      const formats = getDateFormats("23/05/04");
+      expect(formats).toEqual(["dd/MM/yy", "yy/MM/dd", "yy/dd/MM"]);
+    });
+
+    test("should rank confidences from most to least plausible", () => {
+      const result = parseDateStringToFormats("10/03/23");
+      const confidences = result.interpretations.map((i) => i.confidence);
+      expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+      expect(result.interpretations[0].dateOrder).toBe("MDY");
+    });
+
+    test("should favor year-first readings for dash separators", () => {
+      expect(getDateFormats("23-05-04")[0]).toBe("yy-MM-dd");
+    });
+
+    test("should treat a single valid reading as unambiguous", () => {
+      const result = parseDateStringToFormats("2023/25/04");
+      expect(result.hasAmbiguity).toBe(false);
+      expect(result.interpretations[0].format).toBe("yyyy/dd/MM");
+    });
+
+    test("should rank year-first first when preferred", () => {
+      const formats = getDateFormats("10/03/23", { preferredOrder: "YMD" });
+      expect(formats[0]).toBe("yy/MM/dd");
+    });
+  });
+
+  describe("Unambiguous Date Formats", () => {
+    test("should correctly parse full month names", () => {
+      const formats = getDateFormats("March 10, 1990");
+      expect(formats).toEqual(["MMMM dd, yyyy"]);
+    });
+
+    test("should correctly parse short month names", () => {
+      const formats = getDateFormats("Mar 10, 1990");
+      expect(formats).toEqual(["MMM dd, yyyy"]);
+    });
+
+    test("should correctly parse full day names", () => {
+      const formats = getDateFormats("Sunday, March 10, 1990");
+      expect(formats).toEqual(["EEEE, MMMM dd, yyyy"]);
+    });
+
+    test("should correctly parse short day names", () => {
+      const formats = getDateFormats("Sun Mar 10 1990");
+      expect(formats).toEqual(["EEE MMM dd yyyy"]);
+    });
+
+    test("should correctly parse 4-digit years", () => {
+      const formats = getDateFormats("10/03/2023");
+      expect(formats[0]).toContain("yyyy");
+    });
+
+    test("should correctly parse 2-digit years", () => {
+      const formats = getDateFormats("10/03/23");
+      expect(formats[0]).toContain("yy");
+    });
+  });
+
+  describe("Time Format Detection", () => {
+    test("should correctly parse 24-hour time", () => {
+      const formats = getDateFormats("14:30:45");
+      expect(formats).toEqual(["HH:mm:ss"]);
+    });
+
+    test("should correctly parse 12-hour time with AM/PM", () => {
+      const formats = getDateFormats("2:30 PM");
+      expect(formats).toEqual(["h:mm aa"]);
+    });
+
+    test("should correctly parse zero-padded 12-hour time", () => {
+      const formats = getDateFormats("02:30:45 AM");
+      expect(formats).toEqual(["hh:mm:ss aa"]);
+    });
+
+    test("should correctly parse time without seconds", () => {
+      const formats = getDateFormats("14:30");
+      expect(formats).toEqual(["HH:mm"]);
+    });
+
+    test("should handle mixed date and time", () => {
+      const formats = getDateFormats("03/10/1990 2:30 PM");
+      expect(formats[0]).toBe("MM/dd/yyyy h:mm aa");
+    });
+  });
+
+  describe("Edge Cases and Validation", () => {
+    test("should throw error for empty string", () => {
+      expect(() => getDateFormats("")).toThrow(
+        "Input must be a non-empty string"
+      );
+    });
+
+    test("should throw error for null input", () => {
+      expect(() => getDateFormats(null as any)).toThrow(
+        "Input must be a non-empty string"
+      );
+    });
+
+    test("should throw error for undefined input", () => {
+      expect(() => getDateFormats(undefined as any)).toThrow(
+        "Input must be a non-empty string"
+      );
+    });
+
+    test("should handle single digit dates", () => {
+      const formats = getDateFormats("3/5/1990");
+      expect(formats[0]).toBe("M/d/yyyy");
+    });
+
+    test("should handle mixed padding", () => {
+      const formats = getDateFormats("03/5/1990");
+      expect(formats[0]).toBe("MM/d/yyyy");
+    });
+
+    test("should handle different separators", () => {
+      const formats1 = getDateFormats("03-10-1990");
+      const formats2 = getDateFormats("03.10.1990");
+      const formats3 = getDateFormats("03 10 1990");
+
+      expect(formats1[0]).toBe("MM-dd-yyyy");
+      expect(formats2[0]).toBe("MM.dd.yyyy");
+      expect(formats3[0]).toBe("MM dd yyyy");
+    });
+  });
+
+  describe("Ambiguity Detection", () => {
+    test("should detect ambiguity in MM/dd vs dd/MM", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+      expect(result.hasAmbiguity).toBe(true);
+      expect(result.interpretations.length).toBe(2);
+    });
+
+    test("should not detect ambiguity when day > 12", () => {
+      const result = parseDateStringToFormats("12/25/1990");
+      expect(result.hasAmbiguity).toBe(false);
+      expect(result.interpretations.length).toBe(1);
+    });
+
+    test("should not detect ambiguity with month names", () => {
+      const result = parseDateStringToFormats("March 10, 1990");
+      expect(result.hasAmbiguity).toBe(false);
+      expect(result.interpretations.length).toBe(1);
+    });
+
+    test("should provide reasoning for interpretations", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+      expect(result.interpretations[0].reasoning).toBeDefined();
+      expect(result.interpretations[0].reasoning.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("Confidence Scoring", () => {
+    test("should give higher confidence to US format", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+      const usFormat = result.interpretations.find((i) => i.isUSFormat);
+      const nonUsFormat = result.interpretations.find((i) => !i.isUSFormat);
+
+      expect(usFormat?.confidence).toBeGreaterThan(
+        nonUsFormat?.confidence || 0
+      );
+    });
+
+    test("should give high confidence to unambiguous formats", () => {
+      const result = parseDateStringToFormats("March 10, 1990");
+      expect(result.interpretations[0].confidence).toBeGreaterThan(90);
+    });
+
+    test("should give lower confidence to ambiguous formats", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+      result.interpretations.forEach((interp) => {
+        expect(interp.confidence).toBeLessThan(100);
+      });
+    });
+  });
+
+  describe("Token Information", () => {
+    test("should provide detailed token information", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+      const tokens = result.interpretations[0].tokens;
+
+      expect(tokens).toHaveLength(3);
+      expect(tokens[0].originalValue).toBe("03");
+      expect(tokens[0].token).toBe("MM");
+      expect(tokens[0].position).toEqual([0, 2]);
+    });
+
+    test("should include token descriptions", () => {
+      const result = parseDateStringToFormats("March 10, 1990");
+      const tokens = result.interpretations[0].tokens;
+
+      expect(tokens[0].description).toContain("month");
+    });
+  });
+
+  describe("Complex Date Formats", () => {
+    test("should handle ISO-like formats", () => {
+      const formats = getDateFormats("1990-03-10");
+      expect(formats[0]).toBe("yyyy-MM-dd");
+    });
+
+    test("should handle European format with dots", () => {
+      const formats = getDateFormats("10.03.1990");
+      expect(formats[0]).toBe("MM.dd.yyyy"); // US format first
+    });
+
+    test("should handle long format with weekday", () => {
+      const formats = getDateFormats("Saturday, March 10, 1990");
+      expect(formats).toEqual(["EEEE, MMMM dd, yyyy"]);
+    });
+
+    test("should handle timestamp-like format", () => {
+      const formats = getDateFormats("Mar 10 1990 14:30:45");
+      expect(formats).toEqual(["MMM dd yyyy HH:mm:ss"]);
+    });
+
+    test("should handle ctime-style dates with the year after the time", () => {
+      expect(getDateFormats("Wed Jul 23 14:30:00 UTC 2025")).toEqual([
+        "EEE MMM dd HH:mm:ss 'UTC' yyyy",
+      ]);
+      expect(getDateFormats("Jul 23 10:00 2025")).toEqual([
+        "MMM dd HH:mm yyyy",
+      ]);
+
+      const [interpretation] = parseDateStringToFormats(
+        "Mon Jan 5 10:00:00 2026"
+      ).interpretations;
+      expect(interpretation.format).toBe("EEE MMM d HH:mm:ss yyyy");
+      expect(interpretation.roundTrips).toBe(true);
+    });
+
+    test("should handle a time before a numeric date", () => {
+      expect(getDateFormats("10:30 on 3/5/24")).toEqual([
+        "HH:mm 'on' M/d/yy",
+        "HH:mm 'on' d/M/yy",
+      ]);
+    });
+
+    test("should handle date and time separated only by spaces", () => {
+      const formats = getDateFormats("2024 03 05 10 30");
+      expect(formats[0]).toBe("yyyy MM dd HH mm");
+    });
+
+    test("should not read colon-separated numbers as a date", () => {
+      expect(getDateFormats("12:12")).toEqual(["HH:mm"]);
+    });
+  });
+
+  describe("ISO 8601 and RFC 3339", () => {
+    test("should recognize extended date-time with fraction and Z", () => {
+      const formats = getDateFormats("2025-07-23T14:30:00.123Z");
+      expect(formats).toEqual(["yyyy-MM-dd'T'HH:mm:ss.SSSXXX"]);
+    });
+
+    test("should recognize extended date-time with numeric offset", () => {
+      const formats = getDateFormats("2025-07-23T14:30:00+02:00");
+      expect(formats).toEqual(["yyyy-MM-dd'T'HH:mm:ssXXX"]);
+    });
+
+    test("should keep explicit zero offsets", () => {
+      const formats = getDateFormats("2025-07-23 14:30:00+00:00");
+      expect(formats).toEqual(["yyyy-MM-dd HH:mm:ssxxx"]);
+    });
+
+    test("should recognize basic format", () => {
+      expect(getDateFormats("20250723T143000Z")).toEqual([
+        "yyyyMMdd'T'HHmmssXX",
+      ]);
+      expect(getDateFormats("20250723")).toEqual(["yyyyMMdd"]);
+    });
+
+    test("should recognize week dates", () => {
+      expect(getDateFormats("2025-W30-3")).toEqual(["RRRR-'W'II-i"]);
+      expect(getDateFormats("2025W303")).toEqual(["RRRR'W'IIi"]);
+    });
+
+    test("should recognize ordinal dates", () => {
+      const result = parseDateStringToFormats("2025-204");
+      expect(result.interpretations[0].format).toBe("yyyy-DDD");
+      expect(result.interpretations[0].parsedDate).toEqual(
+        new Date(2025, 6, 23)
+      );
+    });
+
+    test("should give ISO formats top confidence and verify them", () => {
+      const result = parseDateStringToFormats("2025-07-23T14:30:00.123Z");
+      const interp = result.interpretations[0];
+
+      expect(interp.confidence).toBe(100);
+      expect(interp.roundTrips).toBe(true);
+      expect(interp.parsedDate?.toISOString()).toBe("2025-07-23T14:30:00.123Z");
+    });
+
+    test("should fall back to heuristics for out-of-range fields", () => {
+      const result = parseDateStringToFormats("2025-13-01");
+      expect(result.interpretations[0].reasoning).not.toContain("ISO");
+    });
+  });
+
+  describe("Timezone Detection", () => {
+    test("should detect numeric offsets after a time", () => {
+      expect(getDateFormats("14:30 +0530")).toEqual(["HH:mm XX"]);
+      expect(getDateFormats("10:00:00-05:00")).toEqual(["HH:mm:ssXXX"]);
+      expect(getDateFormats("14:30 +00:00")).toEqual(["HH:mm xxx"]);
+    });
+
+    test("should not read the end of a time range as an offset", () => {
+      for (const range of ["10:30-11:30", "10:00-11:00am"]) {
+        const result = parseDateStringToFormats(range);
+        expect(
+          result.interpretations.flatMap((i) => i.tokens).map((t) => t.token)
+        ).not.toContain("XXX");
+      }
+      expect(getDateFormats("10:30-05:00")).toEqual(["HH:mmXXX"]);
+    });
+
+    test("should detect the Z designator", () => {
+      expect(getDateFormats("14:30Z")).toEqual(["HH:mmXXX"]);
+    });
+
+    test("should detect localized GMT offsets", () => {
+      expect(getDateFormats("14:30 GMT+2")).toEqual(["HH:mm O"]);
+      expect(getDateFormats("14:30 GMT+02:00")).toEqual(["HH:mm OOOO"]);
+    });
+
+    test("should keep zone abbreviations as literals", () => {
+      const formats = getDateFormats("Tue, 01 Jul 2025 10:00:00 GMT");
+      expect(formats).toEqual(["EEE, dd MMM yyyy HH:mm:ss 'GMT'"]);
+    });
+
+    test("should record the detected timezone style", () => {
+      const styles = (input: string) =>
+        parseDateStringToFormats(input)
+          .interpretations[0].tokens.filter((t) => t.timezoneStyle)
+          .map((t) => t.timezoneStyle);
+
+      expect(styles("14:30 +0530")).toEqual(["iso-basic"]);
+      expect(styles("14:30 GMT+2")).toEqual(["gmt-short"]);
+      expect(styles("03/10/1990 14:30 EST")).toEqual(["abbreviation"]);
+      expect(styles("12/25/1990 10:00 UTC+02:00")).toEqual([
+        "abbreviation",
+        "iso-extended",
+      ]);
+    });
+
+    test("should not treat date separators as offsets", () => {
+      const result = parseDateStringToFormats("03-10-1990");
+      expect(result.interpretations[0].tokens.map((t) => t.token)).toEqual([
+        "MM",
+        "dd",
+        "yyyy",
+      ]);
+    });
+  });
+
+  describe("Fractional Seconds", () => {
+    test("should emit one S per fraction digit", () => {
+      expect(getDateFormats("14:30:45.1")).toEqual(["HH:mm:ss.S"]);
+      expect(getDateFormats("14:30:45.12")).toEqual(["HH:mm:ss.SS"]);
+      expect(getDateFormats("14:30:45.123")).toEqual(["HH:mm:ss.SSS"]);
+    });
+
+    test("should accept a comma as decimal separator", () => {
+      expect(getDateFormats("14:30:45,5")).toEqual(["HH:mm:ss,S"]);
+    });
+
+    test("should keep microsecond and nanosecond precision", () => {
+      expect(getDateFormats("12:00:00.123456")).toEqual(["HH:mm:ss.SSSSSS"]);
+      expect(getDateFormats("2025/07/23 12:00:00.123456789")).toEqual([
+        "yyyy/MM/dd HH:mm:ss.SSSSSSSSS",
+      ]);
+    });
+
+    test("should round-trip fractions beyond milliseconds", () => {
+      const result = parseDateStringToFormats("12:00:00.123456");
+      expect(result.interpretations[0].roundTrips).toBe(true);
+      expect(result.interpretations[0].parsedDate?.getMilliseconds()).toBe(123);
+    });
+
+    test("should not treat fraction digits as other fields", () => {
+      const result = parseDateStringToFormats("14:30:45,5");
+      const tokens = result.interpretations[0].tokens.map((t) => t.token);
+      expect(tokens).toEqual(["HH", "mm", "ss", "S"]);
+    });
+  });
+
+  describe("Unix Epoch Timestamps", () => {
+    test("should recognize seconds", () => {
+      const result = parseDateStringToFormats("1721750400");
+      const interp = result.interpretations[0];
+
+      expect(interp.format).toBe("t");
+      expect(interp.epochUnit).toBe("seconds");
+      expect(interp.roundTrips).toBe(true);
+      expect(interp.parsedDate?.toISOString()).toBe("2024-07-23T16:00:00.000Z");
+    });
+
+    test("should recognize milliseconds", () => {
+      const result = parseDateStringToFormats("1721750400123");
+      const interp = result.interpretations[0];
+
+      expect(interp.format).toBe("T");
+      expect(interp.epochUnit).toBe("milliseconds");
+      expect(interp.parsedDate?.getTime()).toBe(1721750400123);
+    });
+
+    test("should decode microseconds without claiming a round trip", () => {
+      const result = parseDateStringToFormats("1721750400123456");
+      const interp = result.interpretations[0];
+
+      expect(interp.epochUnit).toBe("microseconds");
+      expect(interp.roundTrips).toBe(false);
+      expect(interp.parsedDate?.getTime()).toBe(1721750400123);
+    });
+
+    test("should ignore implausible digit counts", () => {
+      const result = parseDateStringToFormats("12345678901");
+      expect(result.interpretations[0]?.epochUnit).toBeUndefined();
+    });
+  });
+
+  describe("Ordinal Suffixes", () => {
+    test("should emit do for ordinal days", () => {
+      expect(getDateFormats("March 3rd, 2024")).toEqual(["MMMM do, yyyy"]);
+      expect(getDateFormats("Mar 22nd 2024 14:30")).toEqual([
+        "MMM do yyyy HH:mm",
+      ]);
+    });
+
+    test("should escape the words around 'of' phrasing", () => {
+      const result = parseDateStringToFormats("the 21st of June");
+      expect(result.interpretations[0].format).toBe("'the' do 'of' MMMM");
+      expect(result.interpretations[0].roundTrips).toBe(true);
+    });
+
+    test("should handle long phrasing with weekday", () => {
+      const formats = getDateFormats(
+        "Sunday, the 10th of March, in the year 1990"
+      );
+      expect(formats).toEqual(["EEEE, 'the' do 'of' MMMM, 'in the year' yyyy"]);
+    });
+
+    test("should use the unit named after the ordinal", () => {
+      expect(getDateFormats("2nd Quarter 2024")).toEqual(["Qo 'Quarter' yyyy"]);
+      expect(getDateFormats("3rd month")).toEqual(["Mo 'month'"]);
+      expect(getDateFormats("22nd week of 2024")[0]).toStartWith("wo ");
+    });
+  });
+
+  describe("Quarters, Weeks and Days of the Year", () => {
+    test("should recognize quarters", () => {
+      expect(getDateFormats("Q3 2025")).toEqual(["QQQ yyyy"]);
+      expect(getDateFormats("2025-Q03")).toEqual(["yyyy-'Q'QQ"]);
+      expect(getDateFormats("Quarter 3, 2025")).toEqual(["'Quarter' Q, yyyy"]);
+      expect(getDateFormats("2nd quarter 2024")).toEqual(["QQQQ yyyy"]);
+    });
+
+    test("should read a fiscal year prefix as the year", () => {
+      expect(getDateFormats("FY25 Q1")).toEqual(["'FY'yy QQQ"]);
+      expect(getDateFormats("FY2025 Q1")).toEqual(["'FY'yyyy QQQ"]);
+    });
+
+    test("should pair weeks with the week-numbering year", () => {
+      expect(getDateFormats("Week 30, 2025")).toEqual(["'Week' w, Y"]);
+      expect(getDateFormats("wk 05 2025")).toEqual(["'wk' ww Y"]);
+      expect(getDateFormats("W30 2025")).toEqual(["'W'II RRRR"]);
+    });
+
+    test("should recognize days of the year", () => {
+      const result = parseDateStringToFormats("2025.204");
+      expect(result.interpretations[0].format).toBe("yyyy.DDD");
+      expect(result.interpretations[0].parsedDate).toEqual(
+        new Date(2025, 6, 23)
+      );
+      expect(getDateFormats("day 204 of 2025")).toEqual([
+        "'day' DDD 'of' yyyy",
+      ]);
+    });
+
+    test("should carry the date-fns options D and Y tokens need", () => {
+      const [dayOfYear] = parseDateStringToFormats("2025.204").interpretations;
+      const [week] = parseDateStringToFormats("Week 30, 2025").interpretations;
+      const [calendar] = parseDateStringToFormats("2025-07-23").interpretations;
+
+      expect(dayOfYear.formatOptions).toEqual({
+        useAdditionalDayOfYearTokens: true,
+      });
+      expect(week.formatOptions).toEqual({
+        useAdditionalWeekYearTokens: true,
+      });
+      expect(calendar.formatOptions).toBeUndefined();
+    });
+
+    test("should not warn about a day of the year chosen on purpose", () => {
+      const [interpretation] =
+        parseDateStringToFormats("day 5 2025").interpretations;
+
+      expect(interpretation.format).toBe("'day' D yyyy");
+      expect(interpretation.warnings).toEqual([]);
+    });
+
+    test("should not read a day of the month as a day of the year", () => {
+      expect(getDateFormats("Day 15 of March")).toEqual(["'Day' dd 'of' MMMM"]);
+    });
+  });
+
+  describe("Locale-aware Names", () => {
+    test("should recognize French month names", () => {
+      const result = parseDateStringToFormats("10 mars 2024");
+      expect(result.interpretations[0].format).toBe("dd MMMM yyyy");
+      expect(result.interpretations[0].locale).toBe(fr);
+      expect(result.interpretations[0].roundTrips).toBe(true);
+    });
+
+    test("should recognize German weekday and month names", () => {
+      const result = parseDateStringToFormats("Montag, 3. Juni 2024");
+      expect(result.interpretations[0].format).toBe("EEEE, d. MMMM yyyy");
+      expect(result.interpretations[0].locale).toBe(de);
+    });
+
+    test("should recognize Spanish month names among literals", () => {
+      const result = parseDateStringToFormats("23 de julio de 2025");
+      expect(result.interpretations[0].format).toBe("dd 'de' MMMM 'de' yyyy");
+      expect(result.interpretations[0].locale).toBe(es);
+      expect(result.interpretations[0].parsedDate).toEqual(
+        new Date(2025, 6, 23)
+      );
+    });
+
+    test("should prefer English when names are shared", () => {
+      const result = parseDateStringToFormats("Mar 10 1990");
+      expect(result.interpretations[0].locale).toBe(enUS);
+    });
+
+    test("should not switch locale for one abbreviation that is an English word", () => {
+      for (const phrase of ["3 days ago", "Set 5 to 10"]) {
+        const [interpretation] =
+          parseDateStringToFormats(phrase).interpretations;
+        expect(interpretation.locale).toBeUndefined();
+        expect(interpretation.format).not.toContain("MMM");
+      }
+    });
+
+    test("should switch locale on a full name or several abbreviations", () => {
+      expect(
+        parseDateStringToFormats("5 marzo 2024").interpretations[0].locale
+      ).toBe(es);
+      expect(
+        parseDateStringToFormats("lun 5 ene 2024").interpretations[0].locale
+      ).toBe(es);
+    });
+
+    test("should only use the given locale", () => {
+      const result = parseDateStringToFormats("10 mars 2024", {
+        locale: enUS,
+      });
+      expect(result.interpretations[0].locale).toBeUndefined();
+      expect(result.interpretations[0].format).not.toContain("MMMM");
+    });
+
+    test("should leave numeric inputs without a locale", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+      expect(result.interpretations[0].locale).toBeUndefined();
+    });
+  });
+
+  describe("Time-only Formats", () => {
+    test("should handle various time formats", () => {
+      expect(getDateFormats("14:30")).toEqual(["HH:mm"]);
+      expect(getDateFormats("2:30")).toEqual(["H:mm"]);
+      expect(getDateFormats("02:30")).toEqual(["HH:mm"]);
+      expect(getDateFormats("14:30:45")).toEqual(["HH:mm:ss"]);
+    });
+
+    test("should handle AM/PM variations", () => {
+      expect(getDateFormats("2:30 PM")).toEqual(["h:mm aa"]);
+      expect(getDateFormats("2:30 pm")).toEqual(["h:mm aaa"]);
+      expect(getDateFormats("02:30 AM")).toEqual(["hh:mm aa"]);
+    });
+
+    test("should handle a meridiem attached to the time", () => {
+      expect(getDateFormats("3pm")).toEqual(["haaa"]);
+      expect(getDateFormats("3:45PM")).toEqual(["h:mmaa"]);
+      expect(getDateFormats("2024-03-10 11:15am")[0]).toBe(
+        "yyyy-MM-dd h:mmaaa"
+      );
+    });
+
+    test("should handle dotted and single-letter meridiems", () => {
+      expect(getDateFormats("10.30 a.m.")).toEqual(["h.mm aaaa"]);
+      expect(getDateFormats("3:45:10 p.m.")).toEqual(["h:mm:ss aaaa"]);
+      expect(getDateFormats("5 p")).toEqual(["h aaaaa"]);
+    });
+
+    test("should use day periods for noon, midnight and phrases", () => {
+      expect(getDateFormats("noon")).toEqual(["b"]);
+      expect(getDateFormats("12 midnight")).toEqual(["h b"]);
+      expect(getDateFormats("Monday at noon")).toEqual(["EEEE 'at' b"]);
+      expect(getDateFormats("8 in the morning")).toEqual(["h B"]);
+    });
+  });
+
+  describe("Performance and Edge Cases", () => {
+    test("should handle very long date strings", () => {
+      const longDate = "Sunday, the 10th of March, in the year 1990";
+      // Should not crash, even if it doesn't parse perfectly
+      expect(() => getDateFormats(longDate)).not.toThrow();
+    });
+
+    test("should handle numbers that could be confused", () => {
+      // Test edge case where numbers could be hours, minutes, days, months
+      const formats = getDateFormats("12:12:12");
+      expect(formats[0]).toBe("HH:mm:ss");
+    });
+
+    test("should handle single numbers", () => {
+      const formats = getDateFormats("1990");
+      expect(formats).toEqual(["yyyy"]);
+    });
+
+    test("should preserve original formatting characters", () => {
+      const formats = getDateFormats("03/10/1990 @ 2:30 PM");
+      expect(formats[0]).toBe("MM/dd/yyyy @ h:mm aa");
+    });
+  });
+
+  describe("Round-trip Verification", () => {
+    test("should mark formats that reproduce the input", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+      expect(result.interpretations.every((i) => i.roundTrips)).toBe(true);
+    });
+
+    test("should include the parsed date for each reading", () => {
+      const [us, intl] = parseDateStringToFormats("03/10/1990").interpretations;
+      expect(us.parsedDate).toEqual(new Date(1990, 2, 10));
+      expect(intl.parsedDate).toEqual(new Date(1990, 9, 3));
+    });
+
+    test("should penalize formats that do not reproduce the input", () => {
+      const result = parseDateStringToFormats("2:30 Pm");
+      const interp = result.interpretations[0];
+
+      expect(interp.roundTrips).toBe(false);
+      expect(interp.confidence).toBeLessThan(50);
+      expect(interp.reasoning).toContain("does not reproduce");
+    });
+
+    test("should check a bare format string", () => {
+      const referenceDate = new Date(2026, 0, 1);
+
+      expect(
+        checkRoundTrip("2025.204", { format: "yyyy.DDD" }, referenceDate)
+      ).toEqual({ parsedDate: new Date(2025, 6, 23), roundTrips: true });
+      expect(
+        checkRoundTrip("10:30 GMT+2", { format: "HH:mm O" }, referenceDate)
+          .roundTrips
+      ).toBe(false);
+    });
+  });
+
+  describe("Calendar Validity", () => {
+    test("should downgrade days that do not exist in their month", () => {
+      const [interp] = parseDateStringToFormats("02/30/2023").interpretations;
+
+      expect(interp.format).toBe("MM/dd/yyyy");
+      expect(interp.confidence).toBeLessThan(50);
+      expect(interp.reasoning).toContain("February 2023 has only 28 days");
+    });
+
+    test("should accept February 29 in leap years only", () => {
+      const [leap] = parseDateStringToFormats("02/29/2024").interpretations;
+      const [common] = parseDateStringToFormats("02/29/2023").interpretations;
+
+      expect(leap.reasoning).not.toContain("only");
+      expect(common.reasoning).toContain("February 2023 has only 28 days");
+      expect(leap.confidence).toBeGreaterThan(common.confidence);
+    });
+
+    test("should downgrade a weekday the date does not fall on", () => {
+      const result = parseDateStringToFormats("Monday, March 10, 1990");
+      const interp = result.interpretations[0];
+
+      expect(interp.format).toBe("EEEE, MMMM dd, yyyy");
+      expect(interp.reasoning).toContain(
+        "March 10, 1990 falls on a Saturday, not a Monday"
+      );
+    });
+
+    test("should break month/day ties with the weekday", () => {
+      expect(getDateFormats("Wednesday, 03/10/1990")).toEqual([
+        "EEEE, dd/MM/yyyy",
+        "EEEE, MM/dd/yyyy",
+      ]);
+    });
+  });
+
+  describe("Literal Escaping", () => {
+    test("should quote literal latin letters", () => {
+      const formats = getDateFormats("10 de marzo");
+      expect(formats[0]).toBe("dd 'de' MMMM");
+    });
+
+    test("should quote prefixes and separators made of letters", () => {
+      const formats = getDateFormats("Date: 03/10/1990");
+      expect(formats[0].startsWith("'Date': ")).toBe(true);
+    });
+
+    test("should double embedded apostrophes", () => {
+      const formats = getDateFormats("o'clock 3/4/90");
+      expect(formats[0]).toBe("'o''clock' M/d/yy");
+    });
+
+    test("should double apostrophes outside letter runs", () => {
+      const formats = getDateFormats("'90 March 3");
+      expect(formats[0]).toBe("''yy MMMM d");
+    });
+
+    test("should not splice overlapping name matches twice", () => {
+      const result = parseDateStringToFormats("May 10, 2024");
+      expect(result.interpretations[0].format).toBe("MMMM dd, yyyy");
+      expect(result.interpretations[0].tokens).toHaveLength(3);
+    });
+
+    test("every returned format should pass date-fns validation", () => {
+      const inputs = [
+        "2023-07-23T14:30:00",
+        "Date: 03/10/1990",
+        "10 de marzo",
+        "Sunday, the 10th of March, in the year 1990",
+      ];
+
+      for (const input of inputs) {
+        for (const f of getDateFormats(input)) {
+          expect(() => format(new Date(), f)).not.toThrow();
+        }
+      }
+    });
+  });
+
+  describe("Two-digit Years", () => {
+    const referenceDate = new Date(2026, 0, 1);
+
+    test("should resolve two-digit years around the reference date", () => {
+      const [ninety] = parseDateStringToFormats("03/10/90", {
+        referenceDate,
+      }).interpretations;
+      const [twentyThree] = parseDateStringToFormats("03/10/23", {
+        referenceDate,
+      }).interpretations;
+
+      expect(ninety.format).toBe("MM/dd/yy");
+      expect(ninety.resolvedYear).toBe(1990);
+      expect(ninety.parsedDate?.getFullYear()).toBe(1990);
+      expect(twentyThree.resolvedYear).toBe(2023);
+    });
+
+    test("should move the pivot with the reference date", () => {
+      const [interpretation] = parseDateStringToFormats("03/10/90", {
+        referenceDate: new Date(2060, 0, 1),
+      }).interpretations;
+
+      expect(interpretation.resolvedYear).toBe(2090);
+    });
+
+    test("should resolve four-digit years as written", () => {
+      const [interpretation] = parseDateStringToFormats("1990-03-10", {
+        referenceDate,
+      }).interpretations;
+
+      expect(interpretation.resolvedYear).toBe(1990);
+    });
+
+    test("should not resolve a year when there is none", () => {
+      const [interpretation] = parseDateStringToFormats("14:30", {
+        referenceDate,
+      }).interpretations;
+
+      expect(interpretation.resolvedYear).toBeUndefined();
+    });
+
+    test("should use y for every year when preferred", () => {
+      const [fourDigit] = parseDateStringToFormats("03/10/1990", {
+        referenceDate,
+        yearToken: "y",
+      }).interpretations;
+      const [twoDigit] = parseDateStringToFormats("03/10/90", {
+        referenceDate,
+        yearToken: "y",
+      }).interpretations;
+
+      expect(fourDigit.format).toBe("MM/dd/y");
+      expect(fourDigit.resolvedYear).toBe(1990);
+      expect(fourDigit.warnings).toEqual([]);
+      expect(twoDigit.format).toBe("MM/dd/y");
+      expect(twoDigit.resolvedYear).toBe(90);
+      expect(twoDigit.warnings[0]).toContain('y reads "90" as the year 90');
+    });
+
+    test("should keep quoted y literals when preferring y", () => {
+      const [interpretation] = parseDateStringToFormats("March 5 '90", {
+        referenceDate,
+        yearToken: "y",
+      }).interpretations;
+
+      expect(interpretation.format).toBe("MMMM d ''y");
+    });
+
+    test("should match the year token to the digits written", () => {
+      for (const yearToken of [undefined, "match"] as const) {
+        expect(
+          getBestDateFormat("03/10/90", { referenceDate, yearToken })
+        ).toBe("MM/dd/yy");
+        expect(
+          getBestDateFormat("03/10/1990", { referenceDate, yearToken })
+        ).toBe("MM/dd/yyyy");
+      }
+    });
+  });
+
+  describe("Format Warnings", () => {
+    test("should warn about the two-digit year pivot", () => {
+      const result = parseDateStringToFormats("03/10/90");
+      const pivotYear = new Date().getFullYear() + 49;
+
+      expect(result.interpretations[0].format).toBe("MM/dd/yy");
+      expect(result.interpretations[0].warnings).toHaveLength(1);
+      expect(result.interpretations[0].warnings[0]).toContain(`→ ${pivotYear}`);
+    });
+
+    test("should not warn about unambiguous formats", () => {
+      for (const input of ["2024-01-15", "14:30", "2024-W03-2"]) {
+        const [interpretation] =
+          parseDateStringToFormats(input).interpretations;
+        expect(interpretation.warnings).toEqual([]);
+      }
+    });
+  });
+
+  describe("Return Value Structure", () => {
+    test("parseDateStringToFormats should return correct structure", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+
+      expect(result).toHaveProperty("originalString");
+      expect(result).toHaveProperty("interpretations");
+      expect(result).toHaveProperty("hasAmbiguity");
+      expect(result.originalString).toBe("03/10/1990");
+      expect(Array.isArray(result.interpretations)).toBe(true);
+      expect(typeof result.hasAmbiguity).toBe("boolean");
+    });
+
+    test("each interpretation should have required properties", () => {
+      const result = parseDateStringToFormats("03/10/1990");
+      const interp = result.interpretations[0];
+
+      expect(interp).toHaveProperty("format");
+      expect(interp).toHaveProperty("confidence");
+      expect(interp).toHaveProperty("reasoning");
+      expect(interp).toHaveProperty("tokens");
+      expect(interp).toHaveProperty("isUSFormat");
+      expect(interp).toHaveProperty("warnings");
+
+      expect(typeof interp.format).toBe("string");
+      expect(typeof interp.confidence).toBe("number");
+      expect(typeof interp.reasoning).toBe("string");
+      expect(Array.isArray(interp.tokens)).toBe(true);
+      expect(typeof interp.isUSFormat).toBe("boolean");
+    });
+  });
+});
@@ -0,0 +1,2003 @@
+/**
+ * Converts a formatted date string back to its date-fns format template(s)
+ * Returns an array of possible interpretations, with the preferred regional
+ * order (US month-first by default) ranked first
+ * Example: "03/10/1990" -> ["MM/dd/yyyy", "dd/MM/yyyy"]
+ */
+
+import {
+  format,
+  isValid,
+  parse,
+  type Day,
+  type Locale,
+  type Month,
+} from "date-fns";
+import { de, enUS, es, fr, it, nl, pt } from "date-fns/locale";
+
+import {
+  createDetectorRegistry,
+  defineDetector,
+  runDetectors,
+  type DetectorRegistry,
+  type TokenDetector,
+} from "./detectors.js";
+import { findCalendarIssue } from "./calendar.js";
+import {
+  explainFormat,
+  formatOptionsFor,
+  type FormatOptions,
+} from "./explain.js";
+import { lex, solveNumberFields, type Reading } from "./solver.js";
+import { formatTokens } from "./tokenizer.js";
+
+interface TokenPattern {
+  regex: RegExp;
+  token: string;
+  description: string;
+  type: TokenType;
+  priority?: number;
+  timezoneStyle?: TimezoneStyle;
+}
+
+type TokenType =
+  | "year"
+  | "month"
+  | "day"
+  | "weekday"
+  | "hour_24"
+  | "hour_12"
+  | "minute"
+  | "second"
+  | "fractional_second"
+  | "quarter"
+  | "ampm"
+  | "timezone"
+  | "week"
+  | "day_of_year"
+  | "timestamp"
+  | "number";
+
+/**
+ * How a timezone was written, so the UI can explain the chosen token
+ */
+type TimezoneStyle =
+  | "utc-designator"
+  | "iso-hours"
+  | "iso-basic"
+  | "iso-extended"
+  | "gmt-short"
+  | "gmt-long"
+  | "abbreviation";
+
+interface TimezoneToken {
+  token: string;
+  description: string;
+  timezoneStyle: TimezoneStyle;
+}
+
+interface MatchResult {
+  match: string;
+  start: number;
+  end: number;
+  token: string;
+  pattern: TokenPattern;
+  description: string;
+  value: number;
+  /** Locale whose month or weekday name this is */
+  locale?: Locale;
+}
+
+interface TokenInfo {
+  originalValue: string;
+  token: string;
+  description: string;
+  position: [number, number];
+  timezoneStyle?: TimezoneStyle;
+}
+
+interface FormatInterpretation {
+  format: string;
+  confidence: number;
+  reasoning: string;
+  tokens: TokenInfo[];
+  isUSFormat?: boolean;
+  roundTrips: boolean;
+  parsedDate?: Date;
+  epochUnit?: EpochUnit;
+  locale?: Locale;
+  dateOrder?: FieldOrder;
+  /** date-fns footguns in the format, e.g. the two-digit year pivot */
+  warnings: string[];
+  /** Full year the year field resolves to, e.g. 1990 for "90" */
+  resolvedYear?: number;
+  /**
+   * Options to pass to date-fns' parse and format along with the format,
+   * when it has day-of-year (D) or week-numbering year (Y) tokens
+   */
+  formatOptions?: FormatOptions;
+}
+
+type EpochUnit = "seconds" | "milliseconds" | "microseconds";
+
+/**
+ * Order in which day, month and year are usually written
+ */
+type DateOrder = "MDY" | "DMY" | "YMD";
+
+/**
+ * Position of year, month and day in a reading of an all-numeric date
+ */
+type FieldOrder = DateOrder | "YDM";
+
+interface ParseOptions {
+  /**
+   * Locale(s) whose month and weekday names to recognize. When several are
+   * given (or none, which tries a built-in set) the best-matching one is used
+   * and returned on each interpretation.
+   */
+  locale?: Locale | Locale[];
+  /**
+   * Which reading of an ambiguous date such as "03/10/1990" ranks first.
+   * Defaults to the order of a single given locale, otherwise "MDY".
+   */
+  preferredOrder?: DateOrder;
+  /**
+   * Date two-digit years are resolved against, as in date-fns' parse: "yy"
+   * reads as the year within 50 years of it. Also the base for round-trip
+   * checks. Defaults to now.
+   */
+  referenceDate?: Date;
+  /**
+   * Preferred year token. "match" keeps the token matching the digits
+   * written (yyyy for "1990", yy for "90"), which is the default; "y" uses y
+   * for every year, which parses any number of digits but reads "90" as the
+   * year 90 rather than pivoting it. There is no "yy" or "yyyy" preference:
+   * date-fns' yy only parses two digits and yyyy formats "90" as "0090", so
+   * neither round-trips a year written with the other width.
+   */
+  yearToken?: YearToken;
+  /**
+   * Detectors to find tokens with, from createDetectorRegistry. Defaults to
+   * the built-in ones; register custom detectors on top of
+   * BUILT_IN_DETECTORS to keep them.
+   */
+  detectors?: DetectorRegistry;
+}
+
+type YearToken = "match" | "y";
+
+interface ParseResult {
+  originalString: string;
+  interpretations: FormatInterpretation[];
+  hasAmbiguity: boolean;
+}
+
+const ROUND_TRIP_PENALTY = 0.3;
+const CALENDAR_PENALTY = 0.3;
+
+// Tried in order when no locale is given; on a tie the earlier locale wins,
+// so English stays the default and Spanish takes "marzo" before Italian
+const DEFAULT_LOCALES: Locale[] = [enUS, es, fr, de, it, pt, nl];
+
+const namePatternCache = new WeakMap<Locale, TokenPattern[]>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds month and weekday name patterns from a date-fns locale, so names
+ * are recognized in the same spelling date-fns will format and parse them.
+ * Abbreviations identical to a full name ("May", "mai") are left to the
+ * full-name pattern.
+ */
+function localeNamePatterns(locale: Locale): TokenPattern[] {
+  const cached = namePatternCache.get(locale);
+  if (cached) return cached;
+
+  const months = (width: "wide" | "abbreviated") =>
+    Array.from({ length: 12 }, (_, i) =>
+      locale.localize.month(i as Month, { width })
+    );
+  const days = (width: "wide" | "abbreviated") =>
+    Array.from({ length: 7 }, (_, i) =>
+      locale.localize.day(i as Day, { width })
+    );
+  const namePattern = (
+    names: string[],
+    exclude: string[],
+    pattern: Omit<TokenPattern, "regex">
+  ): TokenPattern[] => {
+    const excluded = new Set(exclude.map((name) => name.toLowerCase()));
+    const alternatives = names
+      .filter((name) => name && !excluded.has(name.toLowerCase()))
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+
+    // Locales whose abbreviations all equal their full names (e.g. "ja")
+    // would otherwise produce an empty, match-everything alternation
+    if (alternatives.length === 0) return [];
+
+    return [
+      {
+        ...pattern,
+        regex: new RegExp(
+          `(?<!\\p{L})(${alternatives.join("|")})(?!\\p{L})`,
+          "iu"
+        ),
+      },
+    ];
+  };
+
+  const patterns: TokenPattern[] = [
+    ...namePattern(months("wide"), [], {
+      token: "MMMM",
+      description: "Full month name",
+      type: "month",
+    }),
+    ...namePattern(months("abbreviated"), months("wide"), {
+      token: "MMM",
+      description: "Short month name",
+      type: "month",
+    }),
+    ...namePattern(days("wide"), [], {
+      token: "EEEE",
+      description: "Full day name",
+      type: "weekday",
+    }),
+    ...namePattern(days("abbreviated"), days("wide"), {
+      token: "EEE",
+      description: "Short day name",
+      type: "weekday",
+    }),
+  ];
+
+  namePatternCache.set(locale, patterns);
+  return patterns;
+}
+
+function matchPatterns(
+  patterns: TokenPattern[],
+  dateString: string
+): MatchResult[] {
+  const matches: MatchResult[] = [];
+
+  for (const pattern of patterns) {
+    let match: RegExpExecArray | null;
+    // Always global and case-insensitive, keeping flags such as "u" that
+    // the pattern's own syntax depends on
+    const regex = new RegExp(
+      pattern.regex.source,
+      "gi" + pattern.regex.flags.replace(/[gi]/g, "")
+    );
+
+    while ((match = regex.exec(dateString)) !== null) {
+      matches.push({
+        match: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        token: pattern.token,
+        pattern: pattern,
+        description: pattern.description,
+        value: 0,
+      });
+
+      if (match.index === regex.lastIndex) {
+        regex.lastIndex++;
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Derives the day/month/year order from a locale's short date format,
+ * e.g. "MM/dd/yyyy" (en-US) -> "MDY", "dd.MM.y" (de) -> "DMY"
+ */
+function orderFromLocale(locale: Locale): DateOrder {
+  const tokens = formatTokens(locale.formatLong.date({ width: "short" }));
+  const position = (regex: RegExp) => {
+    const index = tokens.findIndex((token) => regex.test(token));
+    return index === -1 ? Infinity : index;
+  };
+  const year = position(/[yY]/);
+  const month = position(/[ML]/);
+  const day = position(/d/);
+
+  if (year < month && year < day) return "YMD";
+  return day < month ? "DMY" : "MDY";
+}
+
+/**
+ * Picks the candidate locale whose month and weekday names match the most
+ * words of the input. Locales after the first need a full name or more than
+ * one matched word. Returns no locale when none of the names occur.
+ */
+function matchLocaleNames(
+  dateString: string,
+  locales: Locale[]
+): { locale?: Locale; matches: MatchResult[] } {
+  let best: { locale?: Locale; matches: MatchResult[] } = { matches: [] };
+  let bestCount = 0;
+
+  for (const locale of locales) {
+    const matches = matchPatterns(localeNamePatterns(locale), dateString).map(
+      (match) => ({ ...match, locale })
+    );
+    // Count matched words, not patterns: Spanish "mar" is both a month and
+    // a weekday abbreviation but still only one word of the input
+    const count = new Set(matches.map((m) => m.start)).size;
+    // A single abbreviation is too weak to leave the first locale for:
+    // "ago" and "set" are Portuguese months but also English words
+    const convincing =
+      locale === locales[0] ||
+      count > 1 ||
+      matches.some((m) => m.token === "MMMM" || m.token === "EEEE");
+
+    if (convincing && count > bestCount) {
+      best = { locale, matches };
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+interface ISOField {
+  token: string;
+  type: TokenType;
+  description: string;
+  min: number;
+  max: number;
+}
+
+interface ISOForm {
+  regex: RegExp;
+  fields: ISOField[];
+  reasoning: string;
+  extended: boolean;
+  complete: boolean;
+}
+
+const ISO_YEAR: ISOField = {
+  token: "yyyy",
+  type: "year",
+  description: "Full year (e.g., 1990, 2023)",
+  min: 0,
+  max: 9999,
+};
+
+const ISO_MONTH: ISOField = {
+  token: "MM",
+  type: "month",
+  description: "Zero-padded month (01-12)",
+  min: 1,
+  max: 12,
+};
+
+const ISO_DAY: ISOField = {
+  token: "dd",
+  type: "day",
+  description: "Zero-padded day (01-31)",
+  min: 1,
+  max: 31,
+};
+
+const ISO_WEEK_YEAR: ISOField = {
+  token: "RRRR",
+  type: "year",
+  description: "ISO week-numbering year",
+  min: 0,
+  max: 9999,
+};
+
+const ISO_WEEK: ISOField = {
+  token: "II",
+  type: "week",
+  description: "Zero-padded ISO week (01-53)",
+  min: 1,
+  max: 53,
+};
+
+const ISO_WEEKDAY: ISOField = {
+  token: "i",
+  type: "weekday",
+  description: "ISO day of week (1-7, Monday is 1)",
+  min: 1,
+  max: 7,
+};
+
+const ISO_DAY_OF_YEAR: ISOField = {
+  token: "DDD",
+  type: "day_of_year",
+  description: "Zero-padded day of year (001-366)",
+  min: 1,
+  max: 366,
+};
+
+const ISO_HOUR: ISOField = {
+  token: "HH",
+  type: "hour_24",
+  description: "Zero-padded 24-hour (00-23)",
+  min: 0,
+  max: 23,
+};
+
+const ISO_MINUTE: ISOField = {
+  token: "mm",
+  type: "minute",
+  description: "Zero-padded minutes (00-59)",
+  min: 0,
+  max: 59,
+};
+
+const ISO_SECOND: ISOField = {
+  token: "ss",
+  type: "second",
+  description: "Zero-padded seconds (00-59)",
+  min: 0,
+  max: 59,
+};
+
+// Ordered so that longer forms win over their prefixes (yyyy-MM-dd before
+// yyyy-MM, yyyyMMdd before yyyyDDD)
+const ISO_DATE_FORMS: ISOForm[] = [
+  {
+    regex: /^(\d{4})-(\d{2})-(\d{2})/d,
+    fields: [ISO_YEAR, ISO_MONTH, ISO_DAY],
+    reasoning: "ISO 8601 extended calendar date",
+    extended: true,
+    complete: true,
+  },
+  {
+    regex: /^(\d{4})-W(\d{2})-(\d)/d,
+    fields: [ISO_WEEK_YEAR, ISO_WEEK, ISO_WEEKDAY],
+    reasoning: "ISO 8601 extended week date",
+    extended: true,
+    complete: true,
+  },
+  {
+    regex: /^(\d{4})-W(\d{2})/d,
+    fields: [ISO_WEEK_YEAR, ISO_WEEK],
+    reasoning: "ISO 8601 extended week",
+    extended: true,
+    complete: false,
+  },
+  {
+    regex: /^(\d{4})-(\d{3})/d,
+    fields: [ISO_YEAR, ISO_DAY_OF_YEAR],
+    reasoning: "ISO 8601 extended ordinal date",
+    extended: true,
+    complete: true,
+  },
+  {
+    regex: /^(\d{4})-(\d{2})/d,
+    fields: [ISO_YEAR, ISO_MONTH],
+    reasoning: "ISO 8601 extended year and month",
+    extended: true,
+    complete: false,
+  },
+  {
+    regex: /^(\d{4})(\d{2})(\d{2})/d,
+    fields: [ISO_YEAR, ISO_MONTH, ISO_DAY],
+    reasoning: "ISO 8601 basic calendar date",
+    extended: false,
+    complete: true,
+  },
+  {
+    regex: /^(\d{4})W(\d{2})(\d)/d,
+    fields: [ISO_WEEK_YEAR, ISO_WEEK, ISO_WEEKDAY],
+    reasoning: "ISO 8601 basic week date",
+    extended: false,
+    complete: true,
+  },
+  {
+    regex: /^(\d{4})W(\d{2})/d,
+    fields: [ISO_WEEK_YEAR, ISO_WEEK],
+    reasoning: "ISO 8601 basic week",
+    extended: false,
+    complete: false,
+  },
+  {
+    regex: /^(\d{4})(\d{3})/d,
+    fields: [ISO_YEAR, ISO_DAY_OF_YEAR],
+    reasoning: "ISO 8601 basic ordinal date",
+    extended: false,
+    complete: true,
+  },
+];
+
+const ISO_EXTENDED_TIME =
+  /^[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?(Z|[+-]\d{2}(?::\d{2})?)?$/d;
+
+const ISO_BASIC_TIME =
+  /^T(\d{2})(\d{2})(?:(\d{2})(?:[.,](\d+))?)?(Z|[+-]\d{2}(?:\d{2})?)?$/d;
+
+/**
+ * Picks the offset token that formats back to exactly the given designator.
+ * X-style tokens print "Z" for a zero offset, so explicit zero offsets such as
+ * "+00:00" need the x-style equivalents.
+ */
+function offsetToken(offset: string, extended: boolean): TimezoneToken {
+  if (offset === "Z") {
+    return extended
+      ? {
+          token: "XXX",
+          description: "ISO extended offset with Z (e.g., Z, +02:00)",
+          timezoneStyle: "utc-designator",
+        }
+      : {
+          token: "XX",
+          description: "ISO basic offset with Z (e.g., Z, +0200)",
+          timezoneStyle: "utc-designator",
+        };
+  }
+
+  const isZero = /^[+-]0+:?0*$/.test(offset);
+
+  if (offset.includes(":")) {
+    return isZero
+      ? {
+          token: "xxx",
+          description: "ISO extended offset (e.g., +00:00, +02:00)",
+          timezoneStyle: "iso-extended",
+        }
+      : {
+          token: "XXX",
+          description: "ISO extended offset with Z (e.g., Z, +02:00)",
+          timezoneStyle: "iso-extended",
+        };
+  }
+
+  if (offset.length === 5) {
+    return isZero
+      ? {
+          token: "xx",
+          description: "ISO basic offset (e.g., +0000, +0200)",
+          timezoneStyle: "iso-basic",
+        }
+      : {
+          token: "XX",
+          description: "ISO basic offset with Z (e.g., Z, +0200)",
+          timezoneStyle: "iso-basic",
+        };
+  }
+
+  return isZero
+    ? {
+        token: "x",
+        description: "ISO offset hours (e.g., +00, +02)",
+        timezoneStyle: "iso-hours",
+      }
+    : {
+        token: "X",
+        description: "ISO offset hours with Z (e.g., Z, +02)",
+        timezoneStyle: "iso-hours",
+      };
+}
+
+function isoMatch(
+  field: Pick<TokenPattern, "token" | "type" | "description" | "timezoneStyle">,
+  dateString: string,
+  start: number,
+  end: number
+): MatchResult {
+  const match = dateString.substring(start, end);
+
+  return {
+    match: match,
+    start: start,
+    end: end,
+    token: field.token,
+    pattern: {
+      regex: new RegExp(`\\d{${match.length}}`),
+      token: field.token,
+      description: field.description,
+      type: field.type,
+      timezoneStyle: field.timezoneStyle,
+    },
+    description: field.description,
+    value: parseInt(match, 10) || 0,
+  };
+}
+
+/**
+ * Recognizes ISO 8601 / RFC 3339 strings (calendar, week and ordinal dates in
+ * extended or basic format, optionally followed by a time, fraction and
+ * offset) and returns their exact format. Returns null when the input is not
+ * ISO so the heuristic pipeline can take over.
+ */
+function recognizeISO8601(dateString: string): FormatInterpretation | null {
+  for (const form of ISO_DATE_FORMS) {
+    const dateMatch = form.regex.exec(dateString);
+    if (!dateMatch?.indices) continue;
+
+    const matches: MatchResult[] = [];
+    const dateIndices = dateMatch.indices;
+    const dateInRange = form.fields.every((field, i) => {
+      const [start, end] = dateIndices[i + 1]!;
+      const match = isoMatch(field, dateString, start, end);
+      matches.push(match);
+      return match.value >= field.min && match.value <= field.max;
+    });
+
+    if (!dateInRange) continue;
+
+    const rest = dateString.substring(dateMatch[0].length);
+    let reasoning = form.reasoning;
+
+    if (rest.length > 0) {
+      // Times only follow complete dates, and use the same (basic/extended)
+      // style as the date they belong to
+      if (!form.complete) continue;
+
+      const timeMatch = (
+        form.extended ? ISO_EXTENDED_TIME : ISO_BASIC_TIME
+      ).exec(rest);
+      if (!timeMatch?.indices) continue;
+
+      const timeStart = dateMatch[0].length;
+      const timeIndices = timeMatch.indices;
+      const timeFields = [ISO_HOUR, ISO_MINUTE, ISO_SECOND];
+      const timeInRange = timeFields.every((field, i) => {
+        const indices = timeIndices[i + 1];
+        if (!indices) return true;
+
+        const match = isoMatch(
+          field,
+          dateString,
+          timeStart + indices[0],
+          timeStart + indices[1]
+        );
+        matches.push(match);
+        return match.value >= field.min && match.value <= field.max;
+      });
+
+      if (!timeInRange) continue;
+
+      const fractionIndices = timeIndices[4];
+      if (fractionIndices) {
+        const digits = fractionIndices[1] - fractionIndices[0];
+        matches.push(
+          isoMatch(
+            {
+              token: "S".repeat(digits),
+              type: "fractional_second",
+              description: `Fraction of second (${digits} digit${digits === 1 ? "" : "s"})`,
+            },
+            dateString,
+            timeStart + fractionIndices[0],
+            timeStart + fractionIndices[1]
+          )
+        );
+      }
+
+      const zoneIndices = timeIndices[5];
+      if (zoneIndices) {
+        const offset = offsetToken(timeMatch[5], form.extended);
+        matches.push(
+          isoMatch(
+            { ...offset, type: "timezone" },
+            dateString,
+            timeStart + zoneIndices[0],
+            timeStart + zoneIndices[1]
+          )
+        );
+      }
+
+      reasoning = `${reasoning} with time${zoneIndices ? " and offset" : ""}`;
+    }
+
+    return buildInterpretation(matches, dateString, 100, reasoning, false);
+  }
+
+  return null;
+}
+
+const TIMEZONE_ABBREVIATIONS = [
+  "UTC",
+  "GMT",
+  "PST",
+  "PDT",
+  "MST",
+  "MDT",
+  "CST",
+  "CDT",
+  "EST",
+  "EDT",
+  "AKST",
+  "AKDT",
+  "HST",
+  "BST",
+  "IST",
+  "WET",
+  "WEST",
+  "CET",
+  "CEST",
+  "EET",
+  "EEST",
+  "MSK",
+  "JST",
+  "KST",
+  "AEST",
+  "AEDT",
+  "ACST",
+  "AWST",
+  "NZST",
+  "NZDT",
+];
+
+// A time such as "14:30", "14:30:45" or "14:30:45.123", optionally followed
+// by a space, which is what an offset or "Z" has to follow unless it is
+// attached to "GMT" or "UTC"
+const AFTER_TIME = String.raw`(?<=\d{1,2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?\s?)`;
+
+/**
+ * Whether a negative "offset" after a time is really the end of a time
+ * range, as in "10:30-11:30" or "10:00-11:00am": it is followed by a
+ * meridiem, or it is a clock time later than the hours and minutes before
+ * it. An offset such as "10:00-05:00" falls behind the time it follows.
+ */
+function isTimeRangeEnd(
+  dateString: string,
+  start: number,
+  offset: string
+): boolean {
+  const end = /^-(\d{2}):(\d{2})$/.exec(offset);
+  if (!end) return false;
+
+  const after = dateString.substring(start + offset.length);
+  if (/^\s?[ap]\.?m\b/i.test(after)) return true;
+
+  const begin = /(?<![\d:])(\d{1,2}):(\d{2})$/.exec(
+    dateString.substring(0, start)
+  );
+  if (!begin) return false;
+
+  const minutes = ([, hours, minutes]: string[]) =>
+    Number(hours) * 60 + Number(minutes);
+  return minutes(end) > minutes(begin) && Number(end[1]) < 24;
+}
+
+/**
+ * Finds timezone designators: "Z" and numeric offsets following a time,
+ * localized GMT offsets ("GMT+2", "GMT+02:00") and zone abbreviations
+ * ("PST", "UTC"). Abbreviations have no date-fns token that prints them
+ * without a timezone library, so they become escaped literals. Matches are
+ * returned in priority order: a localized GMT offset wins over the "GMT"
+ * abbreviation at the same position.
+ */
+function detectTimezoneTokens(dateString: string): MatchResult[] {
+  const matches: MatchResult[] = [];
+  const add = (zone: TimezoneToken, start: number, match: string) => {
+    matches.push({
+      match: match,
+      start: start,
+      end: start + match.length,
+      token: zone.token,
+      pattern: {
+        regex: /[+-]\d{2}(?::?\d{2})?|Z|[A-Z]{3,4}/,
+        token: zone.token,
+        description: zone.description,
+        type: "timezone",
+        timezoneStyle: zone.timezoneStyle,
+      },
+      description: zone.description,
+      value: 0,
+    });
+  };
+
+  const gmtRegex = /\bGMT([+-])(\d{1,2})(?::(\d{2}))?\b/g;
+  let gmtMatch: RegExpExecArray | null;
+  while ((gmtMatch = gmtRegex.exec(dateString)) !== null) {
+    const [match, , hours, minutes] = gmtMatch;
+
+    // O prints "GMT+2" / "GMT+5:30"; OOOO always prints "GMT+02:00"
+    if (hours.length === 2 && minutes !== undefined) {
+      add(
+        {
+          token: "OOOO",
+          description: "Localized GMT offset (e.g., GMT+02:00)",
+          timezoneStyle: "gmt-long",
+        },
+        gmtMatch.index,
+        match
+      );
+    } else if (!hours.startsWith("0")) {
+      add(
+        {
+          token: "O",
+          description: "Short localized GMT offset (e.g., GMT+2, GMT+5:30)",
+          timezoneStyle: "gmt-short",
+        },
+        gmtMatch.index,
+        match
+      );
+    }
+  }
+
+  const offsetRegex = new RegExp(
+    `(?:${AFTER_TIME}|(?<=\\b(?:GMT|UTC)))(?:Z|[+-]\\d{2}(?::?\\d{2})?)(?![\\d:])`,
+    "g"
+  );
+  let offsetMatch: RegExpExecArray | null;
+  while ((offsetMatch = offsetRegex.exec(dateString)) !== null) {
+    const offset = offsetMatch[0];
+    if (/^[+-]\d{3}$/.test(offset)) continue;
+    if (isTimeRangeEnd(dateString, offsetMatch.index, offset)) continue;
+
+    add(
+      offsetToken(offset, !/^[+-]\d{4}$/.test(offset)),
+      offsetMatch.index,
+      offset
+    );
+  }
+
+  const abbreviationRegex = new RegExp(
+    `\\b(${TIMEZONE_ABBREVIATIONS.join("|")})\\b`,
+    "g"
+  );
+  let abbreviationMatch: RegExpExecArray | null;
+  while ((abbreviationMatch = abbreviationRegex.exec(dateString)) !== null) {
+    const abbreviation = abbreviationMatch[0];
+    add(
+      {
+        token: `'${abbreviation}'`,
+        description: `Timezone abbreviation (${abbreviation}), kept as literal text`,
+        timezoneStyle: "abbreviation",
+      },
+      abbreviationMatch.index,
+      abbreviation
+    );
+  }
+
+  return matches;
+}
+
+/**
+ * Finds fractional-second digits after a seconds field ("14:30:45.123",
+ * "14:30:45,5") and emits one S per digit, so millisecond, microsecond and
+ * nanosecond log timestamps keep their precision in the format
+ */
+function detectFractionalSeconds(dateString: string): MatchResult[] {
+  const matches: MatchResult[] = [];
+  const fractionRegex = /(?<=\d{1,2}:\d{2}:\d{2}[.,])\d+(?!\d)/g;
+  let regexMatch: RegExpExecArray | null;
+
+  while ((regexMatch = fractionRegex.exec(dateString)) !== null) {
+    const digits = regexMatch[0].length;
+    const token = "S".repeat(digits);
+    const description = `Fraction of second (${digits} digit${digits === 1 ? "" : "s"})`;
+
+    matches.push({
+      match: regexMatch[0],
+      start: regexMatch.index,
+      end: regexMatch.index + digits,
+      token: token,
+      pattern: {
+        regex: /\d+/,
+        token: token,
+        description: description,
+        type: "fractional_second",
+      },
+      description: description,
+      value: parseInt(regexMatch[0], 10),
+    });
+  }
+
+  return matches;
+}
+
+interface EpochSpec {
+  unit: EpochUnit;
+  digits: [number, number];
+  millisecondsPerUnit: number;
+}
+
+// Digit counts of epochs from 1973 onwards in each unit
+const EPOCH_SPECS: EpochSpec[] = [
+  { unit: "seconds", digits: [9, 10], millisecondsPerUnit: 1000 },
+  { unit: "milliseconds", digits: [12, 13], millisecondsPerUnit: 1 },
+  { unit: "microseconds", digits: [15, 16], millisecondsPerUnit: 0.001 },
+];
+
+const EPOCH_MAX_YEAR = 2100;
+
+/**
+ * Recognizes Unix epoch timestamps by digit count and a plausible decoded
+ * year (1970-2100). Seconds and milliseconds map to date-fns' `t` and `T`;
+ * date-fns has no microsecond token, so microseconds are decoded for the user
+ * but flagged as not round-tripping through `T`.
+ */
+function recognizeEpoch(dateString: string): FormatInterpretation | null {
+  const digits = dateString;
+  if (!/^\d+$/.test(digits)) return null;
+
+  const spec = EPOCH_SPECS.find(
+    ({ digits: [min, max] }) => digits.length >= min && digits.length <= max
+  );
+  if (!spec) return null;
+
+  const decoded = new Date(
+    Math.floor(parseInt(digits, 10) * spec.millisecondsPerUnit)
+  );
+  if (!isValid(decoded) || decoded.getUTCFullYear() > EPOCH_MAX_YEAR) {
+    return null;
+  }
+
+  const isMicroseconds = spec.unit === "microseconds";
+  const token = spec.unit === "seconds" ? "t" : "T";
+  const description =
+    spec.unit === "seconds"
+      ? "Seconds timestamp (Unix epoch)"
+      : "Milliseconds timestamp (Unix epoch)";
+
+  const interpretation = buildInterpretation(
+    [
+      {
+        match: digits,
+        start: 0,
+        end: digits.length,
+        token: token,
+        pattern: {
+          regex: /^\d+$/,
+          token: token,
+          description: description,
+          type: "timestamp",
+        },
+        description: description,
+        value: parseInt(digits, 10),
+      },
+    ],
+    dateString,
+    isMicroseconds ? 60 : 90,
+    isMicroseconds
+      ? "Unix epoch in microseconds; date-fns has no microsecond token, so drop the last three digits and parse with T"
+      : `Unix epoch in ${spec.unit}`,
+    false
+  );
+
+  return {
+    ...interpretation,
+    epochUnit: spec.unit,
+    ...(isMicroseconds && { parsedDate: decoded }),
+  };
+}
+
+const ORDINAL_UNITS: Array<{
+  unit: RegExp;
+  token: string;
+  type: TokenType;
+  description: string;
+  max: number;
+}> = [
+  {
+    unit: /^\s*quarter\b/i,
+    token: "Qo",
+    type: "quarter",
+    description: "Ordinal quarter (1st-4th)",
+    max: 4,
+  },
+  {
+    unit: /^\s*week\b/i,
+    token: "wo",
+    type: "week",
+    description: "Ordinal week of year (1st-53rd)",
+    max: 53,
+  },
+  {
+    unit: /^\s*month\b/i,
+    token: "Mo",
+    type: "month",
+    description: "Ordinal month (1st-12th)",
+    max: 12,
+  },
+];
+
+/**
+ * Finds numbers with an English ordinal suffix ("3rd", "21st"). They are
+ * days of the month unless the next word names another unit, as in
+ * "2nd quarter" or "22nd week".
+ */
+function detectOrdinals(dateString: string): MatchResult[] {
+  const matches: MatchResult[] = [];
+  const ordinalRegex = /\b(\d{1,2})(st|nd|rd|th)\b/gi;
+  let regexMatch: RegExpExecArray | null;
+
+  while ((regexMatch = ordinalRegex.exec(dateString)) !== null) {
+    const value = parseInt(regexMatch[1], 10);
+    const end = regexMatch.index + regexMatch[0].length;
+    const following = dateString.substring(end);
+    const ordinal = ORDINAL_UNITS.find(({ unit }) => unit.test(following)) ?? {
+      token: "do",
+      type: "day" as TokenType,
+      description: "Ordinal day of month (1st-31st)",
+      max: 31,
+    };
+
+    if (value < 1 || value > ordinal.max) continue;
+
+    matches.push({
+      match: regexMatch[0],
+      start: regexMatch.index,
+      end: end,
+      token: ordinal.token,
+      pattern: {
+        regex: /\b\d{1,2}(st|nd|rd|th)\b/i,
+        token: ordinal.token,
+        description: ordinal.description,
+        type: ordinal.type,
+      },
+      description: ordinal.description,
+      value: value,
+    });
+  }
+
+  return matches;
+}
+
+// Suffixes date-fns' QQQQ prints for each quarter ("1st quarter")
+const QUARTER_ORDINALS = ["1st", "2nd", "3rd", "4th"];
+
+/**
+ * Finds quarters, weeks of the year and days of the year as written in
+ * reports and logs: "Q3" and "3rd quarter" (QQQ, QQQQ), "Quarter 3",
+ * "Week 30" (w), "W30" (ISO week, I), "2025.204" and "day 204" (DDD), and
+ * the fiscal year in "FY25". The words around a number stay literal text.
+ * A quarter phrase comes first so it wins over the ordinal at its start.
+ */
+function detectPeriodFields(dateString: string): MatchResult[] {
+  const matches: MatchResult[] = [];
+  const add = (
+    match: string,
+    start: number,
+    token: string,
+    type: TokenType,
+    description: string
+  ) => {
+    matches.push({
+      match: match,
+      start: start,
+      end: start + match.length,
+      token: token,
+      pattern: {
+        regex: new RegExp(escapeRegExp(match), "i"),
+        token: token,
+        description: description,
+        type: type,
+      },
+      description: description,
+      value: parseInt(match.replace(/\D/g, ""), 10) || 0,
+    });
+  };
+  const padded = (digits: string) =>
+    digits.length === 2 && digits.startsWith("0");
+  const each = (regex: RegExp, callback: (match: RegExpExecArray) => void) => {
+    let regexMatch: RegExpExecArray | null;
+    while ((regexMatch = regex.exec(dateString)) !== null) {
+      callback(regexMatch);
+    }
+  };
+
+  each(/\b([1-4])(st|nd|rd|th) quarter\b/g, (m) => {
+    if (QUARTER_ORDINALS.includes(m[1] + m[2])) {
+      add(
+        m[0],
+        m.index,
+        "QQQQ",
+        "quarter",
+        "Quarter (1st quarter-4th quarter)"
+      );
+    }
+  });
+
+  each(/(?<![A-Za-z])Q(0?)([1-4])(?!\d)/g, (m) => {
+    if (m[1]) {
+      add(
+        m[1] + m[2],
+        m.index + 1,
+        "QQ",
+        "quarter",
+        "Zero-padded quarter (01-04)"
+      );
+    } else {
+      add(m[0], m.index, "QQQ", "quarter", "Quarter (Q1-Q4)");
+    }
+  });
+
+  each(/\b(?:quarter|qtr)\.?\s*(0?[1-4])(?!\d)/gi, (m) => {
+    const digits = m[1];
+    add(
+      digits,
+      m.index + m[0].length - digits.length,
+      padded(digits) ? "QQ" : "Q",
+      "quarter",
+      padded(digits) ? "Zero-padded quarter (01-04)" : "Quarter (1-4)"
+    );
+  });
+
+  each(/\b(?:week|wk)\.?\s*(\d{1,2})(?!\d)/gi, (m) => {
+    const digits = m[1];
+    const value = parseInt(digits, 10);
+    if (value < 1 || value > 53) return;
+
+    add(
+      digits,
+      m.index + m[0].length - digits.length,
+      padded(digits) ? "ww" : "w",
+      "week",
+      padded(digits)
+        ? "Zero-padded local week of year (01-53)"
+        : "Local week of year (1-53)"
+    );
+  });
+
+  each(/(?<![A-Za-z])W(\d{1,2})(?!\d)/g, (m) => {
+    const digits = m[1];
+    const value = parseInt(digits, 10);
+    if (value < 1 || value > 53) return;
+
+    add(
+      digits,
+      m.index + 1,
+      digits.length === 2 ? "II" : "I",
+      "week",
+      digits.length === 2
+        ? "Zero-padded ISO week of year (01-53)"
+        : "ISO week of year (1-53)"
+    );
+  });
+
+  // A year followed by three digits, as in "2025.204"; dashed ordinal dates
+  // are ISO 8601 and recognized before this
+  each(/(?<!\d)\d{4}[./](\d{3})(?![\d./])/g, (m) => {
+    const value = parseInt(m[1], 10);
+    if (value < 1 || value > 366) return;
+
+    add(
+      m[1],
+      m.index + 5,
+      "DDD",
+      "day_of_year",
+      "Zero-padded day of year (001-366)"
+    );
+  });
+
+  // "day 5" but not "day 5 of March"
+  each(/\bday\s+(\d{1,3})(?!\d)(?!\s+of\s+[A-Za-z])/gi, (m) => {
+    const digits = m[1];
+    const value = parseInt(digits, 10);
+    if (value < 1 || value > 366) return;
+
+    const token = digits.length === 3 ? "DDD" : padded(digits) ? "DD" : "D";
+    add(
+      digits,
+      m.index + m[0].length - digits.length,
+      token,
+      "day_of_year",
+      token === "D" ? "Day of year (1-366)" : "Zero-padded day of year"
+    );
+  });
+
+  each(/\bFY\s?(\d{2}|\d{4})(?!\d)/g, (m) => {
+    const digits = m[1];
+    add(
+      digits,
+      m.index + m[0].length - digits.length,
+      digits.length === 4 ? "yyyy" : "yy",
+      "year",
+      digits.length === 4
+        ? "Fiscal year, formatted as the calendar year"
+        : "Two-digit fiscal year, formatted as the calendar year"
+    );
+  });
+
+  return matches;
+}
+
+/**
+ * date-fns will not parse a week together with the calendar year, so a
+ * four-digit year next to a local week (w) becomes the local week-numbering
+ * year Y, and next to an ISO week (I) the ISO week-numbering year RRRR
+ */
+function withWeekNumberingYear(matches: MatchResult[]): MatchResult[] {
+  const week = matches.find((m) => /^(wo|w+|I+)$/.test(m.token));
+  if (!week) return matches;
+
+  const year = week.token.startsWith("I")
+    ? { token: "RRRR", description: "ISO week-numbering year" }
+    : { token: "Y", description: "Local week-numbering year" };
+
+  return matches.map((m) =>
+    m.token === "yyyy"
+      ? {
+          ...m,
+          token: year.token,
+          description: year.description,
+          pattern: { ...m.pattern, ...year },
+        }
+      : m
+  );
+}
+
+// Meridiem spellings that are matched on their own as well as after a time;
+// "a.m." comes before "am" so the dotted form is taken whole
+const MERIDIEM_WORDS = String.raw`[ap]\.m\.|[ap]m|noon|midnight|in the (?:morning|afternoon|evening)|at night`;
+
+// After a time a single "a" or "p" is a meridiem too
+const MERIDIEM = `${MERIDIEM_WORDS}|[ap]`;
+
+/**
+ * Picks the token that prints a meridiem the way it was written: "PM" ->
+ * aa, "pm" -> aaa, "p.m." -> aaaa, "p" -> aaaaa, "noon" and "midnight" ->
+ * b, "in the morning" and "at night" -> B
+ */
+function meridiemToken(meridiem: string): {
+  token: string;
+  description: string;
+} {
+  if (/^(noon|midnight)$/i.test(meridiem)) {
+    return { token: "b", description: "AM/PM, noon or midnight" };
+  } else if (/\s/.test(meridiem)) {
+    return {
+      token: "B",
+      description: "Flexible day period (e.g., in the morning, at night)",
+    };
+  } else if (meridiem.includes(".")) {
+    return { token: "aaaa", description: "a.m./p.m." };
+  } else if (meridiem.length === 1) {
+    return { token: "aaaaa", description: "a/p" };
+  }
+
+  return meridiem === meridiem.toLowerCase()
+    ? { token: "aaa", description: "am/pm" }
+    : { token: "aa", description: "AM/PM" };
+}
+
+/**
+ * Finds 12-hour times followed by a meridiem, attached or spaced: "3pm",
+ * "3:45PM", "10.30 a.m.", "12 noon", "8 in the morning". The hour, minutes
+ * and seconds are emitted along with the meridiem, so a dotted time is not
+ * read as a date. A meridiem written without a time ("PM", "noon") is
+ * matched as well, except the single letters, which are too often words.
+ */
+function detectMeridiemTimes(dateString: string): MatchResult[] {
+  const matches: MatchResult[] = [];
+  const add = (
+    match: string,
+    start: number,
+    token: string,
+    type: TokenType,
+    description: string,
+    value: number
+  ) => {
+    matches.push({
+      match: match,
+      start: start,
+      end: start + match.length,
+      token: token,
+      pattern: {
+        regex: new RegExp(MERIDIEM, "i"),
+        token: token,
+        description: description,
+        type: type,
+      },
+      description: description,
+      value: value,
+    });
+  };
+  const addMeridiem = (meridiem: string, start: number) => {
+    const { token, description } = meridiemToken(meridiem);
+    add(meridiem, start, token, "ampm", description, 0);
+  };
+
+  const timeRegex = new RegExp(
+    String.raw`(?<![\d.:])(\d{1,2})(?:([:.])(\d{2})(?:\2(\d{2}))?)?\s*(${MERIDIEM})(?![A-Za-z])`,
+    "gi"
+  );
+  let timeMatch: RegExpExecArray | null;
+  while ((timeMatch = timeRegex.exec(dateString)) !== null) {
+    const [match, hours, , minutes, seconds, meridiem] = timeMatch;
+    const hour = parseInt(hours, 10);
+    if (hour < 1 || hour > 12) continue;
+    if (minutes !== undefined && parseInt(minutes, 10) > 59) continue;
+    if (seconds !== undefined && parseInt(seconds, 10) > 59) continue;
+
+    const padded = hours.length === 2 && hours.startsWith("0");
+    add(
+      hours,
+      timeMatch.index,
+      padded ? "hh" : "h",
+      "hour_12",
+      padded ? "Zero-padded 12-hour (01-12)" : "12-hour (1-12)",
+      hour
+    );
+
+    // Minutes and seconds are two digits, each after a one-character separator
+    const minuteStart = timeMatch.index + hours.length + 1;
+    if (minutes !== undefined) {
+      add(
+        minutes,
+        minuteStart,
+        "mm",
+        "minute",
+        "Zero-padded minutes (00-59)",
+        parseInt(minutes, 10)
+      );
+    }
+    if (seconds !== undefined) {
+      add(
+        seconds,
+        minuteStart + 3,
+        "ss",
+        "second",
+        "Zero-padded seconds (00-59)",
+        parseInt(seconds, 10)
+      );
+    }
+
+    addMeridiem(meridiem, timeMatch.index + match.length - meridiem.length);
+  }
+
+  const times = [...matches];
+  const wordRegex = new RegExp(
+    String.raw`(?<![A-Za-z])(?:${MERIDIEM_WORDS})(?![A-Za-z])`,
+    "gi"
+  );
+  let wordMatch: RegExpExecArray | null;
+  while ((wordMatch = wordRegex.exec(dateString)) !== null) {
+    const start = wordMatch.index;
+    if (
+      times.some((t) => start < t.end && start + wordMatch![0].length > t.start)
+    ) {
+      continue;
+    }
+
+    addMeridiem(wordMatch[0], start);
+  }
+
+  return matches;
+}
+
+const NUMBER_PATTERN: TokenPattern = {
+  regex: /\d+/,
+  token: "",
+  description: "Number whose field is not assigned yet",
+  type: "number",
+};
+
+/**
+ * Emits the fraction after a seconds field, and every other run of one, two
+ * or four digits as a bare number whose field the solver assigns once all
+ * detectors have run
+ */
+function detectNumbers(dateString: string): MatchResult[] {
+  const fractions = detectFractionalSeconds(dateString);
+  const numbers = lex(dateString)
+    .filter(
+      (segment) =>
+        segment.kind === "digits" &&
+        [1, 2, 4].includes(segment.text.length) &&
+        !fractions.some(
+          (f) => segment.start >= f.start && segment.start < f.end
+        )
+    )
+    .map((segment) => ({
+      match: segment.text,
+      start: segment.start,
+      end: segment.end,
+      token: segment.text,
+      pattern: NUMBER_PATTERN,
+      description: NUMBER_PATTERN.description,
+      value: parseInt(segment.text, 10),
+    }));
+
+  return [...fractions, ...numbers];
+}
+
+const FIELD_ORDER_REASONING: Record<FieldOrder, string> = {
+  MDY: "US format (MM/dd)",
+  DMY: "International format (dd/MM)",
+  YMD: "Year-first format (yyyy/MM/dd)",
+  YDM: "Year-first format with day before month (yyyy/dd/MM)",
+};
+
+function readingReasoning(reading: Reading, ambiguous: boolean): string {
+  const summary = !ambiguous
+    ? "Unambiguous format"
+    : reading.dateOrder
+      ? FIELD_ORDER_REASONING[reading.dateOrder]
+      : reading.monthFirst !== undefined
+        ? FIELD_ORDER_REASONING[reading.monthFirst ? "MDY" : "DMY"]
+        : `Numbers read as ${reading.fields.join(", ")}`;
+
+  return [summary, ...reading.violations].join("; ");
+}
+
+/**
+ * One interpretation per reading the solver finds for the bare numbers
+ */
+function createInterpretations(
+  allMatches: MatchResult[],
+  dateString: string,
+  preferredOrder: DateOrder
+): FormatInterpretation[] {
+  const readings = solveNumberFields(allMatches, dateString, preferredOrder);
+
+  return readings.map((reading) => {
+    const interpretation = buildInterpretation(
+      reading.matches,
+      dateString,
+      reading.confidence,
+      readingReasoning(reading, readings.length > 1),
+      reading.dateOrder
+        ? reading.dateOrder === "MDY"
+        : (reading.monthFirst ?? true)
+    );
+
+    return reading.dateOrder
+      ? { ...interpretation, dateOrder: reading.dateOrder }
+      : interpretation;
+  });
+}
+
+/**
+ * Escapes literal text so date-fns does not read it as format tokens.
+ * Latin letters are wrapped in single quotes and apostrophes are doubled;
+ * everything else (digits, punctuation, whitespace) is already literal.
+ * Example: "Date: " -> "'Date': ", "o'clock" -> "'o''clock'"
+ */
+function escapeLiteral(text: string): string {
+  const letterRun = /[A-Za-z](?:[^]*[A-Za-z])?/;
+  const run = letterRun.exec(text);
+
+  if (!run) {
+    return text.replace(/'/g, "''");
+  }
+
+  const before = text.substring(0, run.index);
+  const after = text.substring(run.index + run[0].length);
+
+  return (
+    before.replace(/'/g, "''") +
+    "'" +
+    run[0].replace(/'/g, "''") +
+    "'" +
+    after.replace(/'/g, "''")
+  );
+}
+
+/**
+ * Checks a format string against date-fns' own validation by formatting a
+ * fixed date with it; date-fns throws a RangeError for unknown tokens and
+ * unescaped latin letters. Day-of-year and week-numbering year tokens are
+ * only emitted on purpose (ordinal dates, years next to a week), so they are
+ * accepted with the options the interpretation then carries in formatOptions.
+ */
+function isValidFormat(formatString: string): boolean {
+  try {
+    format(new Date(2000, 0, 1), formatString, formatOptionsFor(formatString));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function hasOffsetToken(formatString: string): boolean {
+  return formatTokens(formatString).some((token) => /^[Xx]+$/.test(token));
+}
+
+/**
+ * Records the options date-fns needs for the interpretation's format
+ */
+function withFormatOptions(
+  interpretation: FormatInterpretation
+): FormatInterpretation {
+  const formatOptions = formatOptionsFor(interpretation.format);
+  return Object.keys(formatOptions).length > 0
+    ? { ...interpretation, formatOptions }
+    : interpretation;
+}
+
+/**
+ * Dates only hold milliseconds, so sub-millisecond fraction digits come back
+ * from a round trip as zeros; the input is compared at the same precision
+ */
+function toMillisecondPrecision(
+  dateString: string,
+  tokens: TokenInfo[]
+): string {
+  let result = dateString;
+
+  for (const { token, position } of tokens) {
+    if (!/^S{4,}$/.test(token)) continue;
+
+    const [start, end] = position;
+    result =
+      result.substring(0, start + 3) +
+      "0".repeat(end - start - 3) +
+      result.substring(end);
+  }
+
+  return result;
+}
+
+/**
+ * A format to check against an input, with whatever an interpretation knows
+ * about it; formatOptions default to the ones the format needs
+ */
+type RoundTripFormat = Pick<FormatInterpretation, "format"> &
+  Partial<Pick<FormatInterpretation, "tokens" | "locale" | "formatOptions">>;
+
+interface RoundTripResult {
+  /** Undefined when date-fns could not parse the input */
+  parsedDate?: Date;
+  roundTrips: boolean;
+}
+
+/**
+ * Parses the input with a format and formats the result back. Formats with
+ * an offset print it in the machine's time zone, so for them the output
+ * only has to denote the same instant as the input.
+ */
+function checkRoundTrip(
+  dateString: string,
+  roundTripFormat: RoundTripFormat,
+  referenceDate: Date
+): RoundTripResult {
+  const { format: formatString, tokens = [], locale } = roundTripFormat;
+  const options = {
+    ...(roundTripFormat.formatOptions ?? formatOptionsFor(formatString)),
+    locale,
+  };
+
+  try {
+    const parsedDate = parse(dateString, formatString, referenceDate, options);
+    if (!isValid(parsedDate)) return { roundTrips: false };
+
+    const formatted = format(parsedDate, formatString, options);
+    const roundTrips = hasOffsetToken(formatString)
+      ? parse(formatted, formatString, referenceDate, options).getTime() ===
+        parsedDate.getTime()
+      : formatted === toMillisecondPrecision(dateString, tokens);
+
+    return { parsedDate, roundTrips };
+  } catch {
+    // Some formatting-only tokens (e.g. localized GMT offsets) make
+    // date-fns' parse throw instead of returning an invalid date
+    return { roundTrips: false };
+  }
+}
+
+/**
+ * Verifies an interpretation with checkRoundTrip. Interpretations that do
+ * not reproduce the original string keep a fraction of their confidence.
+ */
+function verifyRoundTrip(
+  interpretation: FormatInterpretation,
+  dateString: string,
+  referenceDate: Date
+): FormatInterpretation {
+  const { parsedDate, roundTrips } = checkRoundTrip(
+    dateString,
+    interpretation,
+    referenceDate
+  );
+
+  if (!parsedDate) {
+    return {
+      ...interpretation,
+      confidence: Math.round(interpretation.confidence * ROUND_TRIP_PENALTY),
+      reasoning: `${interpretation.reasoning}; date-fns could not parse the input`,
+      roundTrips: false,
+      parsedDate: undefined,
+    };
+  }
+
+  return {
+    ...interpretation,
+    confidence: roundTrips
+      ? interpretation.confidence
+      : Math.round(interpretation.confidence * ROUND_TRIP_PENALTY),
+    reasoning: roundTrips
+      ? interpretation.reasoning
+      : `${interpretation.reasoning}; formatting the parsed date does not reproduce the input`,
+    roundTrips: roundTrips,
+    parsedDate: parsedDate,
+  };
+}
+
+/**
+ * Rewrites year tokens outside quoted literals to y when that token is
+ * preferred; the detected yy and yyyy already match the digits in the input
+ */
+function applyYearToken(
+  interpretation: FormatInterpretation,
+  yearToken: YearToken
+): FormatInterpretation {
+  if (yearToken !== "y") return interpretation;
+
+  return {
+    ...interpretation,
+    format: interpretation.format.replace(
+      /('(?:''|[^'])*'?)|y+/g,
+      (_, quoted?: string) => quoted ?? "y"
+    ),
+    tokens: interpretation.tokens.map((t) =>
+      /^y+$/.test(t.token)
+        ? { ...t, token: "y", description: "Year (any number of digits)" }
+        : t
+    ),
+  };
+}
+
+/**
+ * Resolves the year field to a full year the way date-fns parses it, so
+ * "90" under yy becomes 1990 (or 2090, depending on the reference date).
+ * A short year under y is read literally, which is worth a warning.
+ */
+function withResolvedYear(
+  interpretation: FormatInterpretation,
+  referenceDate: Date
+): FormatInterpretation {
+  const year = interpretation.tokens.find((t) => /^y+$/.test(t.token));
+  if (!year) return interpretation;
+
+  const resolvedYear =
+    year.token === "yy"
+      ? parse(year.originalValue, "yy", referenceDate).getFullYear()
+      : Number(year.originalValue);
+
+  if (Number.isNaN(resolvedYear)) return interpretation;
+
+  return {
+    ...interpretation,
+    resolvedYear,
+    warnings:
+      year.token === "y" && year.originalValue.length <= 2
+        ? [
+            ...interpretation.warnings,
+            `y reads "${year.originalValue}" as the year ${resolvedYear}; yy would resolve it near the reference date`,
+          ]
+        : interpretation.warnings,
+  };
+}
+
+/**
+ * Downgrades an interpretation whose date does not exist on the calendar,
+ * e.g. February 29 of a common year or a weekday the date does not fall on,
+ * and records why in its reasoning. The reading is kept, since the input
+ * may simply be wrong.
+ */
+function withCalendarCheck(
+  interpretation: FormatInterpretation,
+  referenceDate: Date
+): FormatInterpretation {
+  const issue = findCalendarIssue(interpretation, referenceDate);
+  if (!issue) return interpretation;
+
+  return {
+    ...interpretation,
+    confidence: Math.round(interpretation.confidence * CALENDAR_PENALTY),
+    reasoning: `${interpretation.reasoning}; ${issue}`,
+  };
+}
+
+/**
+ * Attaches the warnings explainFormat reports for the interpretation's
+ * format, so inferred and hand-written formats are checked the same way
+ */
+function withWarnings(
+  interpretation: FormatInterpretation,
+  referenceDate: Date
+): FormatInterpretation {
+  const { issues } = explainFormat(interpretation.format, {
+    referenceDate,
+    locale: interpretation.locale,
+    formatOptions: interpretation.formatOptions,
+  });
+
+  return { ...interpretation, warnings: issues.map((issue) => issue.message) };
+}
+
+function buildInterpretation(
+  matches: MatchResult[],
+  dateString: string,
+  confidence: number,
+  reasoning: string,
+  isUSFormat: boolean
+): FormatInterpretation {
+  const sortedMatches = [...matches].sort((a, b) => a.start - b.start);
+  const usedMatches: MatchResult[] = [];
+  let formatString = "";
+  let cursor = 0;
+
+  for (const match of sortedMatches) {
+    // Overlapping matches (e.g. "May" as both full and short month name)
+    // would splice two tokens into the same span, so keep the first one
+    if (match.start < cursor) continue;
+
+    formatString +=
+      escapeLiteral(dateString.substring(cursor, match.start)) + match.token;
+    cursor = match.end;
+    usedMatches.push(match);
+  }
+
+  formatString += escapeLiteral(dateString.substring(cursor));
+
+  return {
+    format: formatString,
+    confidence: confidence,
+    reasoning: reasoning,
+    isUSFormat: isUSFormat,
+    roundTrips: false,
+    warnings: [],
+    tokens: usedMatches.map((m) => ({
+      originalValue: m.match,
+      token: m.token,
+      description: m.description,
+      position: [m.start, m.end] as [number, number],
+      ...(m.pattern.timezoneStyle && {
+        timezoneStyle: m.pattern.timezoneStyle,
+      }),
+    })),
+  };
+}
+
+/**
+ * Recognizers that read a whole input at once and return its exact format,
+ * most specific first
+ */
+const WHOLE_INPUT_RECOGNIZERS: Array<
+  (dateString: string) => FormatInterpretation | null
+> = [
+  (dateString) => {
+    const interpretation = recognizeISO8601(dateString);
+    return interpretation && isValidFormat(interpretation.format)
+      ? interpretation
+      : null;
+  },
+  recognizeEpoch,
+];
+
+/**
+ * Turns a whole-input recognizer into a detector. Its one match spans the
+ * input and carries the complete format, so any detector of higher priority
+ * that claims part of the input overrides it.
+ */
+function wholeInputDetector(
+  name: string,
+  priority: number,
+  recognize: (dateString: string) => FormatInterpretation | null
+): TokenDetector {
+  return {
+    name,
+    priority,
+    detect: (dateString) => {
+      const interpretation = recognize(dateString);
+      if (!interpretation) return [];
+
+      const pattern: TokenPattern = {
+        regex: /^.+$/,
+        token: interpretation.format,
+        description: interpretation.reasoning,
+        type: "timestamp",
+      };
+      return [
+        {
+          match: dateString,
+          start: 0,
+          end: dateString.length,
+          token: interpretation.format,
+          pattern,
+          description: interpretation.reasoning,
+          value: 0,
+        },
+      ];
+    },
+  };
+}
+
+/**
+ * Returns the recognizer's reading when a whole-input match is all the
+ * detectors found
+ */
+function findWholeInputReading(
+  matches: MatchResult[],
+  dateString: string
+): FormatInterpretation | undefined {
+  const [match] = matches;
+  if (
+    matches.length !== 1 ||
+    match.start !== 0 ||
+    match.end !== dateString.length
+  ) {
+    return undefined;
+  }
+
+  for (const recognize of WHOLE_INPUT_RECOGNIZERS) {
+    const interpretation = recognize(dateString);
+    if (interpretation?.format === match.token) return interpretation;
+  }
+  return undefined;
+}
+
+/**
+ * The parser's own detectors, from the most to the least specific. ISO 8601
+ * strings and epoch timestamps are read whole, before anything else. Numbers
+ * run last and take whatever digits the others leave; which field each of
+ * them is gets solved for afterwards, across all of them at once.
+ */
+const BUILT_IN_DETECTORS: readonly TokenDetector[] = [
+  wholeInputDetector("iso8601", 100, WHOLE_INPUT_RECOGNIZERS[0]),
+  wholeInputDetector("epoch", 90, WHOLE_INPUT_RECOGNIZERS[1]),
+  {
+    name: "timezone",
+    priority: 70,
+    detect: (dateString) => detectTimezoneTokens(dateString),
+  },
+  {
+    name: "period",
+    priority: 60,
+    detect: (dateString) => detectPeriodFields(dateString),
+  },
+  {
+    name: "ordinal",
+    priority: 50,
+    detect: (dateString) => detectOrdinals(dateString),
+  },
+  {
+    name: "meridiem",
+    priority: 40,
+    detect: (dateString) => detectMeridiemTimes(dateString),
+  },
+  {
+    name: "name",
+    priority: 30,
+    detect: (dateString, { locales }) =>
+      matchLocaleNames(dateString, locales).matches,
+  },
+  defineDetector({
+    name: "year",
+    priority: 20,
+    regex: /\b\d{4}\b/,
+    token: "yyyy",
+    description: "Full year (e.g., 1990, 2023)",
+    type: "year",
+  }),
+  {
+    name: "number",
+    priority: 0,
+    detect: (dateString) => detectNumbers(dateString),
+  },
+];
+
+const DEFAULT_REGISTRY = createDetectorRegistry(BUILT_IN_DETECTORS);
+
+function parseDateStringToFormats(
+  dateString: string,
+  options: ParseOptions = {}
+): ParseResult {
+  if (
+    !dateString ||
+    typeof dateString !== "string" ||
+    dateString.trim().length === 0
+  ) {
+    return {
+      originalString: dateString,
+      interpretations: [],
+      hasAmbiguity: false,
+    };
+  }
+
+  const referenceDate = options.referenceDate ?? new Date();
+  // Year token preference, date-fns options, round-trip check, warnings,
+  // resolved year and calendar check, applied to every interpretation that
+  // is returned
+  const finish = (interpretation: FormatInterpretation) => {
+    const preferred = withFormatOptions(
+      applyYearToken(interpretation, options.yearToken ?? "match")
+    );
+    const verified =
+      preferred.epochUnit === "microseconds"
+        ? preferred
+        : verifyRoundTrip(preferred, dateString, referenceDate);
+
+    return withCalendarCheck(
+      withResolvedYear(withWarnings(verified, referenceDate), referenceDate),
+      referenceDate
+    );
+  };
+
+  const locales = options.locale
+    ? Array.isArray(options.locale)
+      ? options.locale
+      : [options.locale]
+    : DEFAULT_LOCALES;
+
+  const preferredOrder =
+    options.preferredOrder ??
+    (options.locale && !Array.isArray(options.locale)
+      ? orderFromLocale(options.locale)
+      : "MDY");
+
+  const allMatches = runDetectors(
+    options.detectors ?? DEFAULT_REGISTRY,
+    dateString,
+    locales
+  );
+  const wholeInputReading = findWholeInputReading(allMatches, dateString);
+
+  if (wholeInputReading) {
+    return {
+      originalString: dateString,
+      interpretations: [finish(wholeInputReading)],
+      hasAmbiguity: false,
+    };
+  }
+
+  const locale = allMatches.find((m) => m.locale)?.locale;
+
+  const interpretations = createInterpretations(
+    withWeekNumberingYear(allMatches),
+    dateString,
+    preferredOrder
+  )
+    .filter((interpretation) => isValidFormat(interpretation.format))
+    .map((interpretation) =>
+      finish(locale ? { ...interpretation, locale } : interpretation)
+    );
+
+  const sortedResults = interpretations.sort((a, b) => {
+    if (a.roundTrips && !b.roundTrips) return -1;
+    if (!a.roundTrips && b.roundTrips) return 1;
+    return b.confidence - a.confidence;
+  });
+
+  return {
+    originalString: dateString,
+    interpretations: sortedResults,
+    hasAmbiguity: sortedResults.length > 1,
+  };
+}
+
+function getDateFormats(
+  dateString: string,
+  options: ParseOptions = {}
+): string[] {
+  const result = parseDateStringToFormats(dateString, options);
+  return result.interpretations.map((i) => i.format);
+}
+
+function getBestDateFormat(
+  dateString: string,
+  options: ParseOptions = {}
+): string | undefined {
+  const result = parseDateStringToFormats(dateString, options);
+  return result.interpretations[0]?.format;
+}
+
+export {
+  parseDateStringToFormats,
+  getDateFormats,
+  getBestDateFormat,
+  checkRoundTrip,
+  escapeLiteral,
+  BUILT_IN_DETECTORS,
+  type ParseResult,
+  type ParseOptions,
+  type YearToken,
+  type DateOrder,
+  type FieldOrder,
+  type FormatInterpretation,
+  type RoundTripFormat,
+  type RoundTripResult,
+  type TokenInfo,
+  type TokenType,
+  type MatchResult,
+  type TokenPattern,
+  type TimezoneStyle,
+  type EpochUnit,
+};
@@ -0,0 +1,136 @@
+/**
+ * Test suite for the numeric field solver using Bun test framework
+ * Tests lexing, hard constraints and the scoring of competing readings
+ */
+
+import { test, expect, describe } from "bun:test";
+import { lex, solveNumberFields } from "./solver.js";
+import { BUILT_IN_DETECTORS } from "./parse.js";
+import { createDetectorRegistry, runDetectors } from "./detectors.js";
+import { enUS } from "date-fns/locale";
+
+const registry = createDetectorRegistry(BUILT_IN_DETECTORS);
+
+function solve(dateString: string) {
+  return solveNumberFields(
+    runDetectors(registry, dateString, [enUS]),
+    dateString,
+    "MDY"
+  );
+}
+
+describe("Numeric Field Solver", () => {
+  describe("Lexing", () => {
+    test("should split digits, letters and separators", () => {
+      expect(lex("10:30 on 3/5").map((s) => [s.kind, s.text])).toEqual([
+        ["digits", "10"],
+        ["separator", ":"],
+        ["digits", "30"],
+        ["separator", " "],
+        ["letters", "on"],
+        ["separator", " "],
+        ["digits", "3"],
+        ["separator", "/"],
+        ["digits", "5"],
+      ]);
+    });
+
+    test("should keep accented letters in one run", () => {
+      expect(lex("3 févr.").map((s) => s.text)).toEqual([
+        "3",
+        " ",
+        "févr",
+        ".",
+      ]);
+    });
+  });
+
+  describe("Hard Constraints", () => {
+    test("should assign each field once", () => {
+      for (const reading of solve("3/5/24 10:30")) {
+        expect(new Set(reading.fields).size).toBe(reading.fields.length);
+      }
+    });
+
+    test("should only read a day next to a month", () => {
+      expect(solve("15 2024").map((r) => r.fields)).toEqual([[]]);
+      expect(solve("15 May 2024")[0].fields).toEqual(["day"]);
+    });
+
+    test("should keep time fields together", () => {
+      expect(solve("2024 03 05 10 30").map((r) => r.fields)).toEqual([
+        ["month", "day", "hour", "minute"],
+        ["day", "month", "hour", "minute"],
+      ]);
+    });
+
+    test("should not put the year between month and day", () => {
+      expect(solve("23/05/04").map((r) => r.dateOrder)).toEqual([
+        "DMY",
+        "YMD",
+        "YDM",
+      ]);
+    });
+
+    test("should allow a detected year after the time", () => {
+      expect(solve("Jul 23 10:00 2025")[0].fields).toEqual([
+        "day",
+        "hour",
+        "minute",
+      ]);
+      expect(solve("Wed Jul 23 14:30:00 UTC 2025")[0].fields).toEqual([
+        "day",
+        "hour",
+        "minute",
+        "second",
+      ]);
+    });
+
+    test("should read a two-digit day-like number next to a month as the day", () => {
+      expect(solve("15 March")[0].fields).toEqual(["day"]);
+      expect(solve("March 90")[0].fields).toEqual(["year"]);
+    });
+  });
+
+  describe("Search Limits", () => {
+    const numbers = (count: number) =>
+      Array.from({ length: count }, (_, i) =>
+        String((i % 59) + 1).padStart(2, "0")
+      ).join(" ");
+
+    test("should return at most ten readings", () => {
+      expect(solve(numbers(6)).length).toBeLessThanOrEqual(10);
+    });
+
+    test("should leave more numbers than a date-time has as literal text", () => {
+      const readings = solve(numbers(60));
+      expect(readings).toHaveLength(1);
+      expect(readings[0].fields).toEqual([]);
+    });
+  });
+
+  describe("Scoring", () => {
+    test("should rank readings by the preferred order", () => {
+      const [us, intl] = solve("03/10/1990");
+      expect(us.monthFirst).toBe(true);
+      expect(intl.monthFirst).toBe(false);
+      expect(us.confidence).toBeGreaterThan(intl.confidence);
+    });
+
+    test("should prefer year first for dash-separated two-digit years", () => {
+      expect(solve("23-05-04")[0].dateOrder).toBe("YMD");
+    });
+
+    test("should record the soft constraints a reading breaks", () => {
+      expect(solve("2024 03 05 10 30")[0].violations).toEqual([
+        "time written with spaces",
+      ]);
+    });
+
+    test("should give a single reading full confidence", () => {
+      const readings = solve("March 10, 1990");
+      expect(readings).toHaveLength(1);
+      expect(readings[0].confidence).toBe(95);
+    });
+  });
+});
@@ -0,0 +1,622 @@
+/**
+ * Assigns fields to the bare numbers of an input. The input is lexed into
+ * digit runs, letter runs and separators; every number the detectors left
+ * gets its candidate fields, and a search keeps the assignments that are
+ * consistent as a whole: one of each field, a day only next to a month and
+ * hour, minute and second written together. Readings are scored by the soft
+ * constraints they satisfy rather than by where a number stands; whether
+ * the date exists on the calendar is checked on the finished format.
+ * Example: "10:30 on 3/5/24" -> "HH:mm 'on' M/d/yy", "HH:mm 'on' d/M/yy"
+ */
+
+import { parse } from "date-fns";
+
+import type { DateOrder, FieldOrder, MatchResult, TokenType } from "./parse.js";
+
+type SegmentKind = "digits" | "letters" | "separator";
+
+interface Segment {
+  kind: SegmentKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+type Field = "year" | "month" | "day" | "hour" | "minute" | "second";
+
+interface Candidate {
+  field: Field;
+  token: string;
+  description: string;
+  type: TokenType;
+}
+
+/**
+ * One globally consistent assignment of fields to the bare numbers
+ */
+interface Reading {
+  /** The input's matches, with each assigned number given its field */
+  matches: MatchResult[];
+  confidence: number;
+  /** Order of year, month and day when all three are numbers */
+  dateOrder?: FieldOrder;
+  /** Whether a numeric month comes before a numeric day */
+  monthFirst?: boolean;
+  /** Fields given to bare numbers, in input order */
+  fields: Field[];
+  /** Soft constraints the reading breaks, for the reasoning */
+  violations: string[];
+}
+
+/**
+ * A digit run of the input, either a bare number to assign or one a
+ * detector already took
+ */
+interface Slot {
+  segment: Segment;
+  /** Separator between this digit run and the previous one, if nothing else */
+  separator?: string;
+  number?: MatchResult;
+  candidates: Candidate[];
+  /** Field of the detector match covering exactly this run */
+  fixed: Field | null;
+}
+
+const FIELD_OF_TYPE: Partial<Record<TokenType, Field>> = {
+  year: "year",
+  month: "month",
+  day: "day",
+  hour_24: "hour",
+  hour_12: "hour",
+  minute: "minute",
+  second: "second",
+};
+
+const DATE_FIELDS: Field[] = ["year", "month", "day"];
+
+const FIELD_LETTER: Partial<Record<Field, string>> = {
+  year: "Y",
+  month: "M",
+  day: "D",
+};
+
+const FIELD_CANDIDATES: Array<{
+  field: Exclude<Field, "year">;
+  type: TokenType;
+  min: number;
+  max: number;
+  token: string;
+  description: string;
+  paddedDescription: string;
+}> = [
+  {
+    field: "month",
+    type: "month",
+    min: 1,
+    max: 12,
+    token: "M",
+    description: "Month (1-12)",
+    paddedDescription: "Zero-padded month (01-12)",
+  },
+  {
+    field: "day",
+    type: "day",
+    min: 1,
+    max: 31,
+    token: "d",
+    description: "Day (1-31)",
+    paddedDescription: "Zero-padded day (01-31)",
+  },
+  {
+    field: "hour",
+    type: "hour_24",
+    min: 0,
+    max: 23,
+    token: "H",
+    description: "24-hour (0-23)",
+    paddedDescription: "Zero-padded 24-hour (00-23)",
+  },
+  {
+    field: "minute",
+    type: "minute",
+    min: 0,
+    max: 59,
+    token: "m",
+    description: "Minutes (0-59)",
+    paddedDescription: "Zero-padded minutes (00-59)",
+  },
+  {
+    field: "second",
+    type: "second",
+    min: 0,
+    max: 59,
+    token: "s",
+    description: "Seconds (0-59)",
+    paddedDescription: "Zero-padded seconds (00-59)",
+  },
+];
+
+// Longest each month can be, for telling a day from a two-digit year
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const FIELD_ORDER_RANKING: Record<DateOrder, FieldOrder[]> = {
+  MDY: ["MDY", "DMY", "YMD", "YDM"],
+  DMY: ["DMY", "MDY", "YMD", "YDM"],
+  YMD: ["YMD", "MDY", "DMY", "YDM"],
+};
+
+// A reading that satisfies every soft constraint, kept below the 100 of
+// formats recognized outright (ISO 8601, epochs)
+const MAX_CONFIDENCE = 95;
+
+// What breaking each soft constraint costs
+const PENALTY = {
+  literalNumber: 30,
+  orderRank: 15,
+  yearDayMonth: 25,
+  dashYearLast: 20,
+  spacedTime: 10,
+  mixedSeparators: 10,
+  ambiguity: 10,
+};
+
+// Readings that cost this much more than the best one found are not
+// searched further, and at most this many are returned
+const PRUNE_MARGIN = 50;
+const MAX_READINGS = 10;
+
+// Fields a date-time can give to bare numbers
+const NUMERIC_FIELDS = 6;
+
+const TIME_SEPARATOR = /^(:|\s+)$/;
+
+/**
+ * Splits the input into runs of digits, runs of letters and the separators
+ * between them
+ * Example: "10:30 on 3/5" -> "10" ":" "30" " " "on" " " "3" "/" "5"
+ */
+function lex(dateString: string): Segment[] {
+  const segments: Segment[] = [];
+  const segmentRegex = /(\d+)|(\p{L}+)|[^\d\p{L}]+/gu;
+  let regexMatch: RegExpExecArray | null;
+
+  while ((regexMatch = segmentRegex.exec(dateString)) !== null) {
+    segments.push({
+      kind: regexMatch[1] ? "digits" : regexMatch[2] ? "letters" : "separator",
+      text: regexMatch[0],
+      start: regexMatch.index,
+      end: regexMatch.index + regexMatch[0].length,
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Fields a number could be from its digits alone. Four digits are only a
+ * year, a year written with two digits has exactly two, and a zero-padded
+ * number takes the zero-padded token.
+ */
+function candidatesFor(digits: string): Candidate[] {
+  if (digits.length === 4) {
+    return [
+      {
+        field: "year",
+        token: "yyyy",
+        description: "Full year (e.g., 1990, 2023)",
+        type: "year",
+      },
+    ];
+  }
+  if (digits.length > 2) return [];
+
+  const value = parseInt(digits, 10);
+  const padded = digits.length === 2;
+  const candidates: Candidate[] = padded
+    ? [
+        {
+          field: "year",
+          token: "yy",
+          description: "Two-digit year",
+          type: "year",
+        },
+      ]
+    : [];
+
+  for (const spec of FIELD_CANDIDATES) {
+    if (value < spec.min || value > spec.max) continue;
+
+    candidates.push({
+      field: spec.field,
+      token: padded ? spec.token.repeat(2) : spec.token,
+      description: padded ? spec.paddedDescription : spec.description,
+      type: spec.type,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Month number of a detector's month match: its digits, or the month its
+ * name parses to in the match's locale
+ */
+function monthOf(match: MatchResult): number | undefined {
+  if (/^\d+$/.test(match.match)) return parseInt(match.match, 10);
+  if (!/^M{3,4}$/.test(match.token)) return undefined;
+
+  const date = parse(match.match, match.token, new Date(2000, 0, 1), {
+    locale: match.locale,
+  });
+  return Number.isNaN(date.getTime()) ? undefined : date.getMonth() + 1;
+}
+
+function createSlots(dateString: string, allMatches: MatchResult[]): Slot[] {
+  const segments = lex(dateString);
+  const slots: Slot[] = [];
+
+  segments.forEach((segment, i) => {
+    if (segment.kind !== "digits") return;
+
+    const covering = allMatches.filter(
+      (m) => m.start === segment.start && m.end === segment.end
+    );
+    const number = covering.find((m) => m.pattern.type === "number");
+    const fixed = covering.find((m) => m.pattern.type !== "number");
+    const previous = segments[i - 1];
+
+    slots.push({
+      segment,
+      separator:
+        previous?.kind === "separator" && segments[i - 2]?.kind === "digits"
+          ? previous.text
+          : undefined,
+      number: fixed ? undefined : number,
+      candidates: !fixed && number ? candidatesFor(number.match) : [],
+      fixed: fixed ? (FIELD_OF_TYPE[fixed.pattern.type] ?? null) : null,
+    });
+  });
+
+  return slots;
+}
+
+/**
+ * Searches the assignments that satisfy the hard constraints: each field at
+ * most once (counting the ones detectors took), minutes right after the hour
+ * and seconds right after the minutes, and the numeric date fields next to
+ * each other. penaltyOf scores a complete assignment, or rejects it with
+ * undefined; branches whose literal numbers alone already cost more than
+ * the best reading plus PRUNE_MARGIN are cut.
+ */
+function searchAssignments(
+  slots: Slot[],
+  claimed: Set<Field>,
+  penaltyOf: (assignment: Array<Candidate | null>) => number | undefined
+): Array<{ assignment: Array<Candidate | null>; penalty: number }> {
+  const found: Array<{ assignment: Array<Candidate | null>; penalty: number }> =
+    [];
+  const chosen: Array<Candidate | null> = [];
+  const roleAt = (i: number) => chosen[i]?.field ?? slots[i].fixed;
+  let bestPenalty = Infinity;
+
+  const visit = (
+    i: number,
+    used: Set<Field>,
+    phase: "before" | "within" | "after",
+    literals: number
+  ) => {
+    if (i === slots.length) {
+      // An hour on its own is not a time
+      if (chosen[i - 1]?.field === "hour") return;
+
+      const penalty = penaltyOf(chosen);
+      if (penalty === undefined) return;
+
+      bestPenalty = Math.min(bestPenalty, penalty);
+      found.push({ assignment: [...chosen], penalty });
+      return;
+    }
+
+    const slot = slots[i];
+    const options: Array<Candidate | null> = slot.number
+      ? [...slot.candidates.filter((c) => !used.has(c.field)), null]
+      : [null];
+
+    for (const option of options) {
+      chosen[i] = option;
+      const role = roleAt(i);
+
+      if (option?.field === "minute" || option?.field === "second") {
+        const expected = option.field === "minute" ? "hour" : "minute";
+        const separator = slot.separator ?? "";
+        const spaced = /^\s+$/.test(separator);
+
+        if (
+          i === 0 ||
+          roleAt(i - 1) !== expected ||
+          !TIME_SEPARATOR.test(separator) ||
+          (option.field === "second" && separator !== slots[i - 1].separator) ||
+          (spaced && slot.segment.text.length !== 2)
+        ) {
+          continue;
+        }
+      }
+      if (i > 0 && chosen[i - 1]?.field === "hour" && role !== "minute") {
+        continue;
+      }
+
+      const isDate = role !== null && DATE_FIELDS.includes(role);
+      // Only numbers read as date fields have to sit together; a year or
+      // month a detector fixed may come after the time ("Jul 23 10:00 2025")
+      const isNumericDate =
+        option !== null && DATE_FIELDS.includes(option.field);
+      if (isNumericDate && phase === "after") continue;
+
+      // Colons separate time fields, never date fields
+      const previousRole = i > 0 ? roleAt(i - 1) : null;
+      if (
+        slot.separator === ":" &&
+        (option || chosen[i - 1]) &&
+        (isDate ||
+          (previousRole !== null && DATE_FIELDS.includes(previousRole)))
+      ) {
+        continue;
+      }
+      const nextPhase =
+        isDate && phase !== "after"
+          ? "within"
+          : phase === "within"
+            ? "after"
+            : phase;
+
+      const nextLiterals = slot.number && !option ? literals + 1 : literals;
+      if (nextLiterals * PENALTY.literalNumber > bestPenalty + PRUNE_MARGIN) {
+        continue;
+      }
+
+      const nextUsed = option ? new Set([...used, option.field]) : used;
+      visit(i + 1, nextUsed, nextPhase, nextLiterals);
+    }
+
+    chosen.length = i;
+  };
+
+  visit(0, claimed, "before", 0);
+  // Readings found before the best one may be well behind it
+  return found.filter(({ penalty }) => penalty <= bestPenalty + PRUNE_MARGIN);
+}
+
+/**
+ * Hard constraints that need the whole assignment: the year is not between
+ * month and day, a day has a month, and a time written with spaces only
+ * follows a complete date
+ */
+function isConsistent(
+  slots: Slot[],
+  assignment: Array<Candidate | null>,
+  claimed: Set<Field>,
+  namedMonth: number | undefined
+): boolean {
+  const roles = slots.map((slot, i) => assignment[i]?.field ?? slot.fixed);
+  const fields = new Set([...claimed, ...roles.filter((r) => r !== null)]);
+  const assigned = (field: Field) => assignment.some((c) => c?.field === field);
+
+  const order = roles
+    .map((role) => (role ? (FIELD_LETTER[role] ?? "") : ""))
+    .join("");
+  if (
+    order.length === 3 &&
+    DATE_FIELDS.some(assigned) &&
+    !FIELD_ORDER_RANKING.MDY.includes(order as FieldOrder)
+  ) {
+    return false;
+  }
+
+  const valueOf = (field: Field) => {
+    const index = roles.indexOf(field);
+    return index === -1 ? undefined : parseInt(slots[index].segment.text, 10);
+  };
+  const month = valueOf("month") ?? namedMonth;
+  const daysInMonth = month === undefined ? 31 : DAYS_IN_MONTH[month - 1];
+
+  if (assigned("day") && !fields.has("month")) return false;
+
+  // Without a day, a two-digit number that could be the day of the month is
+  // read as the day rather than the year: "15 March" but "March 90"
+  const year = valueOf("year");
+  if (
+    assigned("year") &&
+    slots[roles.indexOf("year")].segment.text.length === 2 &&
+    fields.has("month") &&
+    !fields.has("day") &&
+    year! >= 1 &&
+    year! <= daysInMonth
+  ) {
+    return false;
+  }
+
+  const spacedTime = slots.some(
+    (slot, i) =>
+      assignment[i]?.field === "minute" && /^\s+$/.test(slot.separator ?? "")
+  );
+  return !spacedTime || DATE_FIELDS.every((field) => fields.has(field));
+}
+
+/**
+ * Soft constraints of a single reading; how its field order ranks against
+ * the other readings is scored in solveNumberFields
+ */
+function scoreReading(
+  slots: Slot[],
+  assignment: Array<Candidate | null>
+): Pick<Reading, "dateOrder" | "monthFirst" | "violations"> & {
+  penalty: number;
+} {
+  const roles = slots.map((slot, i) => assignment[i]?.field ?? slot.fixed);
+  const dateSlots = slots.filter((_, i) => {
+    const role = roles[i];
+    return role !== null && DATE_FIELDS.includes(role);
+  });
+  const order = roles
+    .map((role) => (role ? (FIELD_LETTER[role] ?? "") : ""))
+    .join("");
+  const violations: string[] = [];
+  let penalty = 0;
+
+  const literalNumbers = slots.filter(
+    (slot, i) => slot.number && !assignment[i]
+  ).length;
+  if (literalNumbers > 0) {
+    penalty += PENALTY.literalNumber * literalNumbers;
+    violations.push("digits left as literal text");
+  }
+
+  const dateOrder = order.length === 3 ? (order as FieldOrder) : undefined;
+  const monthFirst =
+    order.includes("M") && order.includes("D")
+      ? order.indexOf("M") < order.indexOf("D")
+      : undefined;
+
+  if (dateOrder) {
+    if (dateOrder === "YDM") penalty += PENALTY.yearDayMonth;
+
+    const twoDigitYear = dateSlots.some(
+      (slot) =>
+        slot.segment.text.length === 2 && roles[slots.indexOf(slot)] === "year"
+    );
+    if (
+      twoDigitYear &&
+      dateSlots[1].separator === "-" &&
+      !dateOrder.startsWith("Y")
+    ) {
+      penalty += PENALTY.dashYearLast;
+      violations.push("dash-separated dates usually start with the year");
+    }
+  }
+
+  if (new Set(dateSlots.slice(1).map((slot) => slot.separator)).size > 1) {
+    penalty += PENALTY.mixedSeparators;
+    violations.push("date fields use different separators");
+  }
+
+  if (
+    slots.some(
+      (slot, i) =>
+        assignment[i]?.field === "minute" && /^\s+$/.test(slot.separator ?? "")
+    )
+  ) {
+    penalty += PENALTY.spacedTime;
+    violations.push("time written with spaces");
+  }
+
+  return { penalty, violations, dateOrder, monthFirst };
+}
+
+/**
+ * Solves for the fields of the bare numbers among the matches. Only the
+ * readings that leave the fewest numbers as literal text are returned, best
+ * first and at most MAX_READINGS of them; with no bare numbers, or more of
+ * them than a date-time has fields left, the matches come back as the single
+ * reading.
+ */
+function solveNumberFields(
+  allMatches: MatchResult[],
+  dateString: string,
+  preferredOrder: DateOrder
+): Reading[] {
+  const detected = allMatches.filter((m) => m.pattern.type !== "number");
+  const claimed = new Set<Field>();
+  for (const match of detected) {
+    const field = FIELD_OF_TYPE[match.pattern.type];
+    if (field) claimed.add(field);
+    // A day of the year already fixes the month and the day
+    if (match.pattern.type === "day_of_year") {
+      claimed.add("month");
+      claimed.add("day");
+    }
+  }
+
+  const namedMonthMatch = detected.find((m) => m.pattern.type === "month");
+  const namedMonth = namedMonthMatch && monthOf(namedMonthMatch);
+  const slots = createSlots(dateString, allMatches);
+
+  const numbers = slots.filter((slot) => slot.number).length;
+  const assignments =
+    numbers > NUMERIC_FIELDS - claimed.size
+      ? [slots.map(() => null)]
+      : searchAssignments(slots, claimed, (assignment) =>
+          isConsistent(slots, assignment, claimed, namedMonth)
+            ? scoreReading(slots, assignment).penalty
+            : undefined
+        ).map(({ assignment }) => assignment);
+  const assignedCount = (assignment: Array<Candidate | null>) =>
+    assignment.filter((c) => c !== null).length;
+  const most = Math.max(0, ...assignments.map(assignedCount));
+  const best = assignments.filter((a) => assignedCount(a) === most);
+
+  const scored = best.map((assignment) => ({
+    assignment,
+    ...scoreReading(slots, assignment),
+  }));
+
+  // Field orders rank among the ones the readings use, so the most preferred
+  // of them costs nothing; MDY and YMD both put a lone month before the day
+  const orders = FIELD_ORDER_RANKING[preferredOrder].filter((order) =>
+    scored.some((r) => r.dateOrder === order)
+  );
+  const monthDayOrders = new Set(scored.map((r) => r.monthFirst));
+  const orderRank = (reading: Pick<Reading, "dateOrder" | "monthFirst">) =>
+    reading.dateOrder
+      ? orders.indexOf(reading.dateOrder)
+      : monthDayOrders.has(true) &&
+          monthDayOrders.has(false) &&
+          reading.monthFirst === (preferredOrder === "DMY")
+        ? 1
+        : 0;
+
+  return scored
+    .map(({ assignment, penalty, ...reading }) => {
+      const numbers = slots.flatMap((slot, i) => {
+        const candidate = assignment[i];
+        if (!slot.number || !candidate) return [];
+
+        return [
+          {
+            ...slot.number,
+            token: candidate.token,
+            description: candidate.description,
+            pattern: {
+              ...slot.number.pattern,
+              token: candidate.token,
+              description: candidate.description,
+              type: candidate.type,
+            },
+          },
+        ];
+      });
+
+      return {
+        ...reading,
+        matches: [...detected, ...numbers],
+        fields: assignment.flatMap((c) => (c ? [c.field] : [])),
+        confidence: Math.max(
+          0,
+          MAX_CONFIDENCE -
+            penalty -
+            PENALTY.orderRank * orderRank(reading) -
+            (best.length > 1 ? PENALTY.ambiguity : 0)
+        ),
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_READINGS);
+}
+
+export {
+  lex,
+  solveNumberFields,
+  type Segment,
+  type SegmentKind,
+  type Field,
+  type Reading,
+};
@@ -0,0 +1,114 @@
+/**
+ * Test suite for table parsing and per-column date detection using Bun test framework
+ * Tests CSV quoting, TSV and JSON input, and which columns are reported as dates
+ */
+
+import { test, expect, describe } from "bun:test";
+import { detectColumnFormats, parseDelimited, parseTable } from "./tabular.js";
+
+describe("Table Parsing", () => {
+  describe("Delimited Text", () => {
+    test("should split rows and fields", () => {
+      expect(parseDelimited("a,b\n1,2\r\n3,4\n", ",")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+        ["3", "4"],
+      ]);
+    });
+
+    test("should honor quoted fields", () => {
+      expect(
+        parseDelimited('name,note\n"Doe, Jane","said ""hi""\nthen left"', ",")
+      ).toEqual([
+        ["name", "note"],
+        ["Doe, Jane", 'said "hi"\nthen left'],
+      ]);
+    });
+
+    test("should skip blank lines", () => {
+      expect(parseDelimited("a\n\n1\n", ",")).toEqual([["a"], ["1"]]);
+    });
+  });
+
+  describe("File Types", () => {
+    test("should read CSV with a header row", () => {
+      const table = parseTable("date,amount\n03/10/1990,5", "data.csv");
+      expect(table.columns).toEqual(["date", "amount"]);
+      expect(table.rows).toEqual([["03/10/1990", "5"]]);
+    });
+
+    test("should read TSV by extension or content", () => {
+      expect(parseTable("date\tamount\n1990-03-10\t5", "x.tsv").rows).toEqual([
+        ["1990-03-10", "5"],
+      ]);
+      expect(parseTable("date\tamount\n1990-03-10\t5").columns).toEqual([
+        "date",
+        "amount",
+      ]);
+    });
+
+    test("should read JSON arrays of objects", () => {
+      const table = parseTable(
+        '[{"date": "03/10/1990", "n": 1}, {"date": "25/10/1990"}]',
+        "data.json"
+      );
+      expect(table.columns).toEqual(["date", "n"]);
+      expect(table.rows).toEqual([
+        ["03/10/1990", "1"],
+        ["25/10/1990", ""],
+      ]);
+    });
+
+    test("should read JSON arrays of arrays", () => {
+      const table = parseTable('[["date"], ["1990-03-10"]]');
+      expect(table.columns).toEqual(["date"]);
+      expect(table.rows).toEqual([["1990-03-10"]]);
+    });
+
+    test("should reject JSON that is not an array", () => {
+      expect(() => parseTable('{"date": "1990-03-10"}', "x.json")).toThrow(
+        "JSON input must be an array"
+      );
+    });
+  });
+});
+
+describe("Column Date Detection", () => {
+  const csv = [
+    "id,created,name,updated",
+    "1,03/10/1990,Ann,2024-01-02T10:00:00Z",
+    "2,25/10/1990,Bob,2024-01-03T11:30:00Z",
+    "3,01/11/1990,Cid,yesterday",
+  ].join("\n");
+
+  test("should report only columns that look like dates", () => {
+    const columns = detectColumnFormats(parseTable(csv, "data.csv"));
+    expect(columns.map((c) => c.column)).toEqual(["created", "updated"]);
+  });
+
+  test("should not report amounts or version numbers as dates", () => {
+    const table = parseTable(
+      [
+        "amount,version,paid",
+        "12.50,1.2,03/10/1990",
+        "3.00,1.10,04/10/1990",
+      ].join("\n"),
+      "payments.csv"
+    );
+    expect(detectColumnFormats(table).map((c) => c.column)).toEqual(["paid"]);
+  });
+
+  test("should resolve the format across the whole column", () => {
+    const [created] = detectColumnFormats(parseTable(csv, "data.csv"));
+    expect(created.format).toBe("dd/MM/yyyy");
+    expect(created.confidence).toBe(100);
+    expect(created.failingRows).toEqual([]);
+  });
+
+  test("should list failing rows by 1-based row number", () => {
+    const [, updated] = detectColumnFormats(parseTable(csv, "data.csv"));
+    expect(updated.format).toBe("yyyy-MM-dd'T'HH:mm:ssXXX");
+    expect(updated.matchCount).toBe(2);
+    expect(updated.failingRows).toEqual([3]);
+  });
+});
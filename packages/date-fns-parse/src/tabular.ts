@@ -0,0 +1,198 @@
+/**
+ * Reads CSV, TSV and JSON tables in the browser and detects which columns
+ * hold dates, inferring one date-fns format per column
+ * Example: "created,name\n03/10/1990,a\n25/10/1990,b" -> created: "dd/MM/yyyy"
+ */
+
+import { inferFormatFromSamples } from "./infer.js";
+import type { ParseOptions } from "./parse.js";
+import { formatTokens } from "./tokenizer.js";
+
+interface Table {
+  columns: string[];
+  rows: string[][];
+}
+
+interface ColumnFormat {
+  column: string;
+  format: string;
+  confidence: number;
+  matchCount: number;
+  sampleCount: number;
+  /** 1-based data row numbers (header excluded) that do not fit the format */
+  failingRows: number[];
+}
+
+// Columns where fewer samples fit the inferred format are not reported
+const MIN_DATE_COLUMN_CONFIDENCE = 50;
+
+// Amounts and version numbers ("12.50", "1.2") read as M.yy or M.d
+const DECIMAL_NUMBER = /^[-+]?\d+[.,]\d+$/;
+
+/**
+ * Splits delimited text into rows of fields, honoring double-quoted fields
+ * that contain delimiters, newlines or doubled quotes ("")
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Reads a JSON array of objects (keys become columns) or of arrays (the
+ * first array is the header)
+ */
+function parseJSONTable(text: string): Table {
+  const data: unknown = JSON.parse(text);
+
+  if (!Array.isArray(data)) {
+    throw new Error("JSON input must be an array of objects or arrays");
+  }
+
+  if (data.every(Array.isArray)) {
+    const [header = [], ...rows] = data as unknown[][];
+    return {
+      columns: header.map(stringify),
+      rows: rows.map((r) => r.map(stringify)),
+    };
+  }
+
+  const columns = [
+    ...new Set(
+      data.flatMap((item) =>
+        item && typeof item === "object" ? Object.keys(item) : []
+      )
+    ),
+  ];
+
+  return {
+    columns,
+    rows: data.map((item) =>
+      columns.map((column) =>
+        stringify((item as Record<string, unknown> | null)?.[column])
+      )
+    ),
+  };
+}
+
+/**
+ * Parses table text by file name (.csv, .tsv, .json), falling back to its
+ * content: a leading "[" is JSON and a tab in the first line is TSV
+ */
+function parseTable(text: string, fileName = ""): Table {
+  const extension = /\.([^.]+)$/.exec(fileName.toLowerCase())?.[1];
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+
+  if (
+    extension === "json" ||
+    (extension !== "csv" &&
+      extension !== "tsv" &&
+      text.trimStart().startsWith("["))
+  ) {
+    return parseJSONTable(text);
+  }
+
+  const delimiter =
+    extension === "tsv" || (extension !== "csv" && firstLine.includes("\t"))
+      ? "\t"
+      : ",";
+  const [columns = [], ...rows] = parseDelimited(text, delimiter);
+
+  return { columns, rows };
+}
+
+/**
+ * A format made only of literals, or a single calendar field, fits plain
+ * numbers and text too well to call the column a date column
+ */
+function looksLikeDateFormat(formatString: string): boolean {
+  const tokens = formatTokens(formatString);
+
+  return tokens.length >= 2 || /^[tT]$/.test(formatString);
+}
+
+/**
+ * Runs format inference on every column and returns the ones that look like
+ * dates, in column order
+ */
+function detectColumnFormats(
+  table: Table,
+  options: ParseOptions = {}
+): ColumnFormat[] {
+  return table.columns.flatMap((column, columnIndex) => {
+    const samples = table.rows.map((row) => row[columnIndex] ?? "");
+    const result = inferFormatFromSamples(samples, options);
+
+    const values = samples.map((sample) => sample.trim()).filter(Boolean);
+
+    if (
+      !result.format ||
+      !looksLikeDateFormat(result.format) ||
+      values.every((value) => DECIMAL_NUMBER.test(value)) ||
+      result.confidence < MIN_DATE_COLUMN_CONFIDENCE
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        column,
+        format: result.format,
+        confidence: result.confidence,
+        matchCount: result.matchCount,
+        sampleCount: result.sampleCount,
+        failingRows: result.outliers.map((outlier) => outlier.index + 1),
+      },
+    ];
+  });
+}
+
+export {
+  parseDelimited,
+  parseTable,
+  detectColumnFormats,
+  type Table,
+  type ColumnFormat,
+};
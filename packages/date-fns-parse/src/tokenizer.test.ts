@@ -0,0 +1,49 @@
+/**
+ * Test suite for the format tokenizer using Bun test framework
+ * Tests token runs, ordinals, localized formats and quoted literals
+ */
+
+import { test, expect, describe } from "bun:test";
+import { formatTokens, splitFormat } from "./tokenizer.js";
+
+describe("Format Tokenizer", () => {
+  describe("Tokens", () => {
+    test("should split runs of one letter", () => {
+      expect(formatTokens("dd/MM/yyyy HH:mm")).toEqual([
+        "dd",
+        "MM",
+        "yyyy",
+        "HH",
+        "mm",
+      ]);
+    });
+
+    test("should keep ordinals and long localized formats whole", () => {
+      expect(formatTokens("do MMMM")).toEqual(["do", "MMMM"]);
+      expect(formatTokens("PPpp")).toEqual(["PPpp"]);
+    });
+  });
+
+  describe("Literals", () => {
+    test("should unquote literals and record where they are", () => {
+      expect(splitFormat("'at' h")).toEqual([
+        { source: "'at'", text: "at", quoted: true, position: [0, 4] },
+        { source: " ", text: " ", quoted: false, position: [4, 5] },
+        { source: "h", token: "h", text: "h", quoted: false, position: [5, 6] },
+      ]);
+    });
+
+    test("should read doubled quotes as apostrophes", () => {
+      expect(splitFormat("h 'o''clock'").map((p) => p.text)).toEqual([
+        "h",
+        " ",
+        "o'clock",
+      ]);
+      expect(splitFormat("''yy").map((p) => p.text)).toEqual(["'", "yy"]);
+    });
+
+    test("should leave letters inside quotes out of the tokens", () => {
+      expect(formatTokens("yyyy 'Q'Q")).toEqual(["yyyy", "Q"]);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Splits a date-fns format string into tokens and literals, the same way
+ * date-fns does before it formats or parses
+ * Example: "do 'of' MMMM" -> do, " ", 'of', " ", MMMM
+ */
+
+interface FormatPart {
+  /** The part as written in the format, e.g. "yyyy", "'of'" or ", " */
+  source: string;
+  /**
+   * Set when the part is a token: a run of one letter, an ordinal ("do") or
+   * a long localized format ("PPpp")
+   */
+  token?: string;
+  /** What the part stands for: the token itself, or unquoted literal text */
+  text: string;
+  /** True for quoted literals, including "''" */
+  quoted: boolean;
+  position: [number, number];
+}
+
+// Long localized formats are matched as a whole, then ordinals, then runs of
+// one letter, then quoted literals
+const FORMAT_PARTS =
+  /P+p+|P+|p+|[yYQqMLwIdDecihHKkms]o|([A-Za-z])\1*|''|'(''|[^'])*('|$)|[^A-Za-z']+/g;
+
+function splitFormat(formatString: string): FormatPart[] {
+  return [...formatString.matchAll(FORMAT_PARTS)].map((match) => {
+    const source = match[0];
+    const position: [number, number] = [
+      match.index,
+      match.index + source.length,
+    ];
+
+    if (/^[A-Za-z]/.test(source)) {
+      return { source, token: source, text: source, quoted: false, position };
+    }
+    if (source.startsWith("'")) {
+      // '' is an apostrophe, inside quotes or on its own
+      const text =
+        source === "''"
+          ? "'"
+          : source.replace(/^'|'$/g, "").replace(/''/g, "'");
+      return { source, text, quoted: true, position };
+    }
+    return { source, text: source, quoted: false, position };
+  });
+}
+
+/**
+ * Returns the tokens of a format in order, without its literals
+ */
+function formatTokens(formatString: string): string[] {
+  return splitFormat(formatString).flatMap((part) =>
+    part.token ? [part.token] : []
+  );
+}
+
+export { splitFormat, formatTokens, type FormatPart };
@@ -0,0 +1,116 @@
+/**
+ * Test suite for the command-line interface using Bun test framework
+ * Tests argument and stdin input, output modes, order preference and exit codes
+ */
+
+import { test, expect, describe } from "bun:test";
+import { runCli } from "./cli";
+
+describe("CLI", () => {
+  describe("Input", () => {
+    test("should print the best format for a single argument", () => {
+      const result = runCli(["2024-01-15"]);
+      expect(result.stdout).toBe("yyyy-MM-dd\n");
+      expect(result.exitCode).toBe(0);
+    });
+
+    test("should prefix each format with its input for several arguments", () => {
+      const result = runCli(["2024-01-15", "March 5, 2024"]);
+      expect(result.stdout).toBe(
+        "2024-01-15\tyyyy-MM-dd\nMarch 5, 2024\tMMMM d, yyyy\n"
+      );
+    });
+
+    test("should read newline-delimited stdin when no arguments are given", () => {
+      const result = runCli([], "2024-01-15\r\n\nMarch 5, 2024\n");
+      expect(result.stdout).toBe(
+        "2024-01-15\tyyyy-MM-dd\nMarch 5, 2024\tMMMM d, yyyy\n"
+      );
+    });
+
+    test("should ignore stdin when arguments are given", () => {
+      expect(runCli(["2024-01-15"], "March 5, 2024\n").stdout).toBe(
+        "yyyy-MM-dd\n"
+      );
+    });
+  });
+
+  describe("Output", () => {
+    test("should list every interpretation with --all", () => {
+      const lines = runCli(["--all", "03/10/1990"]).stdout.trim().split("\n");
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toStartWith("MM/dd/yyyy\t85%\t");
+      expect(lines[1]).toStartWith("dd/MM/yyyy\t70%\t");
+    });
+
+    test("should print JSON with --json", () => {
+      const output = JSON.parse(runCli(["--json", "2024-01-15"]).stdout);
+      expect(output).toEqual([{ input: "2024-01-15", format: "yyyy-MM-dd" }]);
+    });
+
+    test("should include interpretations in JSON with --all", () => {
+      const [entry] = JSON.parse(
+        runCli(["--json", "--all", "03/10/1990"]).stdout
+      );
+      expect(entry.format).toBe("MM/dd/yyyy");
+      expect(entry.interpretations.map((i: any) => i.format)).toEqual([
+        "MM/dd/yyyy",
+        "dd/MM/yyyy",
+      ]);
+      expect(entry.interpretations[0].roundTrips).toBe(true);
+      expect(entry.interpretations[0].warnings).toEqual([]);
+    });
+  });
+
+  describe("Order Preference", () => {
+    test("should rank day-first readings first with --order DMY", () => {
+      expect(runCli(["--order", "DMY", "03/10/1990"]).stdout).toBe(
+        "dd/MM/yyyy\n"
+      );
+    });
+
+    test("should accept --order=value and lowercase orders", () => {
+      expect(runCli(["--order=dmy", "03/10/1990"]).stdout).toBe("dd/MM/yyyy\n");
+    });
+
+    test("should reject unknown orders", () => {
+      const result = runCli(["--order", "XYZ", "03/10/1990"]);
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr).toContain("--order must be one of MDY, DMY, YMD");
+    });
+  });
+
+  describe("Exit Codes", () => {
+    test("should exit non-zero when no format is found", () => {
+      const result = runCli(["hello"]);
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toBe("");
+      expect(result.stderr).toBe('No format found for "hello"\n');
+    });
+
+    test("should still print formats for the inputs that matched", () => {
+      const result = runCli(["--json", "2024-01-15", "hello"]);
+      expect(result.exitCode).toBe(1);
+      expect(JSON.parse(result.stdout)[1]).toEqual({
+        input: "hello",
+        format: null,
+      });
+    });
+
+    test("should print usage when there is no input", () => {
+      const result = runCli([], "\n");
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr).toContain("Usage:");
+    });
+
+    test("should print usage and exit zero for --help", () => {
+      const result = runCli(["--help"]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain("Usage:");
+    });
+
+    test("should reject unknown options", () => {
+      expect(runCli(["--verbose", "2024-01-15"]).exitCode).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+#!/usr/bin/env bun
+/**
+ * Command-line interface for date format inference
+ * Usage: bun src/cli.ts [--all] [--json] [--order MDY|DMY|YMD] [date ...]
+ * Reads newline-delimited dates from stdin when no dates are given
+ * Example: echo "03/10/1990" | bun src/cli.ts --order DMY -> dd/MM/yyyy
+ */
+
+import {
+  parseDateStringToFormats,
+  type DateOrder,
+  type FormatInterpretation,
+} from "date-fns-parse";
+
+interface CliResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+interface CliOptions {
+  all: boolean;
+  json: boolean;
+  order?: DateOrder;
+  inputs: string[];
+}
+
+const USAGE = `Usage: date-fns-parse [options] [date ...]
+
+Infers date-fns format strings. Reads one date per line from stdin when no
+dates are given.
+
+Options:
+  --all            Print every interpretation, not just the best format
+  --json           Print results as JSON
+  --order <order>  Preferred order for ambiguous dates: MDY, DMY or YMD
+  -h, --help       Show this help
+`;
+
+const ORDERS: DateOrder[] = ["MDY", "DMY", "YMD"];
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): CliOptions | "help" {
+  const options: CliOptions = { all: false, json: false, inputs: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "-h" || arg === "--help") return "help";
+    if (arg === "--all") {
+      options.all = true;
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--order" || arg.startsWith("--order=")) {
+      const value = (
+        arg === "--order" ? args[++i] : arg.slice("--order=".length)
+      )?.toUpperCase();
+
+      if (!ORDERS.includes(value as DateOrder)) {
+        throw new UsageError(
+          `--order must be one of ${ORDERS.join(", ")}, got ${value ?? "nothing"}`
+        );
+      }
+      options.order = value as DateOrder;
+    } else if (arg === "--") {
+      options.inputs.push(...args.slice(i + 1));
+      break;
+    } else if (arg.startsWith("--")) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Interpretations that contain at least one token; a format made only of
+ * quoted literals just echoes the input back
+ */
+function usableInterpretations(input: string, order?: DateOrder) {
+  return parseDateStringToFormats(input, {
+    preferredOrder: order,
+  }).interpretations.filter((i) => i.tokens.length > 0);
+}
+
+function describeInterpretation(interpretation: FormatInterpretation): string {
+  return [
+    interpretation.format,
+    `${interpretation.confidence}%`,
+    interpretation.reasoning,
+  ].join("\t");
+}
+
+/**
+ * Runs the CLI against arguments and optional stdin text without touching
+ * the process, so it can be tested directly
+ */
+function runCli(args: string[], stdin = ""): CliResult {
+  let options: CliOptions | "help";
+
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    return { stdout: "", stderr: `${error.message}\n\n${USAGE}`, exitCode: 2 };
+  }
+
+  if (options === "help") {
+    return { stdout: USAGE, stderr: "", exitCode: 0 };
+  }
+
+  const inputs =
+    options.inputs.length > 0
+      ? options.inputs
+      : stdin.split(/\r?\n/).filter((line) => line.trim() !== "");
+
+  if (inputs.length === 0) {
+    return { stdout: "", stderr: USAGE, exitCode: 2 };
+  }
+
+  const results = inputs.map((input) => ({
+    input,
+    interpretations: usableInterpretations(input, options.order),
+  }));
+  const missing = results.filter((r) => r.interpretations.length === 0);
+  const stderr = missing
+    .map((r) => `No format found for "${r.input}"\n`)
+    .join("");
+  const exitCode = missing.length > 0 ? 1 : 0;
+
+  if (options.json) {
+    const json = results.map(({ input, interpretations }) => ({
+      input,
+      format: interpretations[0]?.format ?? null,
+      ...(options.all && {
+        interpretations: interpretations.map((i) => ({
+          format: i.format,
+          confidence: i.confidence,
+          reasoning: i.reasoning,
+          roundTrips: i.roundTrips,
+          warnings: i.warnings,
+        })),
+      }),
+    }));
+
+    return { stdout: `${JSON.stringify(json, null, 2)}\n`, stderr, exitCode };
+  }
+
+  const lines = results.flatMap(({ input, interpretations }) => {
+    if (interpretations.length === 0) return [];
+    if (options.all) {
+      return [
+        ...(results.length > 1 ? [`${input}:`] : []),
+        ...interpretations.map(describeInterpretation),
+      ];
+    }
+
+    const best = interpretations[0].format;
+    return [results.length > 1 ? `${input}\t${best}` : best];
+  });
+
+  return {
+    stdout: lines.map((line) => `${line}\n`).join(""),
+    stderr,
+    exitCode,
+  };
+}
+
+if (import.meta.main) {
+  const args = process.argv.slice(2);
+  const needsStdin = (() => {
+    try {
+      const options = parseArgs(args);
+      return options !== "help" && options.inputs.length === 0;
+    } catch {
+      return false;
+    }
+  })();
+  const stdin =
+    needsStdin && !process.stdin.isTTY ? await Bun.stdin.text() : "";
+  const result = runCli(args, stdin);
+
+  process.stdout.write(result.stdout);
+  process.stderr.write(result.stderr);
+  process.exit(result.exitCode);
+}
+
+export { runCli, type CliResult };
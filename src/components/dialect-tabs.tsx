@@ -0,0 +1,85 @@
+import { CopyIcon, TriangleAlertIcon } from "lucide-react";
+import { useState } from "react";
+import {
+  convertInterpretation,
+  type FormatDialect,
+  type FormatInterpretation,
+} from "date-fns-parse";
+
+import { cn } from "@/lib/utils";
+import { toast } from "./ui/sonner";
+
+export function DialectTabs({
+  interpretation,
+  className,
+}: {
+  interpretation: FormatInterpretation;
+  className?: string;
+}) {
+  const [dialect, setDialect] = useState<FormatDialect>("moment");
+  const conversions = convertInterpretation(interpretation);
+  const active =
+    conversions.find((c) => c.dialect === dialect) ?? conversions[0];
+
+  return (
+    <div className={cn("flex flex-col gap-2 text-sm", className)}>
+      <div
+        role="tablist"
+        aria-label="Format in other libraries"
+        className="bg-muted text-muted-foreground flex flex-wrap gap-1 rounded-md p-1"
+      >
+        {conversions.map((conversion) => (
+          <button
+            key={conversion.dialect}
+            type="button"
+            role="tab"
+            aria-selected={conversion.dialect === active.dialect}
+            className={cn(
+              "flex items-center gap-1 rounded-sm px-2 py-1 text-xs font-medium transition-colors",
+              conversion.dialect === active.dialect &&
+                "bg-background text-foreground shadow-xs"
+            )}
+            onClick={() => setDialect(conversion.dialect)}
+          >
+            {conversion.label}
+            {!conversion.exact && (
+              <TriangleAlertIcon className="size-3 text-amber-500" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div role="tabpanel" className="flex flex-col gap-1">
+        <button
+          type="button"
+          className="hover:bg-accent flex items-center justify-between gap-2 rounded-sm px-2 py-1 text-left font-mono"
+          onClick={() => {
+            navigator.clipboard.writeText(active.format);
+            toast.success("Copied to clipboard", {
+              description: active.format,
+            });
+          }}
+        >
+          {active.format}
+          <CopyIcon className="text-muted-foreground size-4 shrink-0" />
+        </button>
+        {active.inexactTokens.length > 0 && (
+          <ul className="text-muted-foreground flex flex-col gap-0.5 px-2 text-xs">
+            {active.inexactTokens.map((inexact, index) => (
+              <li key={`${inexact.token}-${index}`}>
+                <code>{inexact.token}</code>
+                {inexact.replacement && (
+                  <>
+                    {" → "}
+                    <code>{inexact.replacement}</code>
+                  </>
+                )}
+                : {inexact.reason}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { CopyIcon, TriangleAlertIcon } from "lucide-react";
+import { useMemo, useState } from "react";
+import type { ParseOptions } from "date-fns-parse";
+
+import { compareEngines, toFixtures, type Winner } from "@/lib/cross-check";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+import { toast } from "./ui/sonner";
+
+const WINNER_LABELS: Record<Winner, string> = {
+  both: "Both",
+  ours: "date-fns-parse",
+  moment: "moment-parseformat",
+  neither: "Neither",
+};
+
+export function EngineComparison({
+  options,
+  className,
+}: {
+  options?: ParseOptions;
+  className?: string;
+}) {
+  const [text, setText] = useState("");
+  const comparisons = useMemo(
+    () =>
+      text
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== "")
+        .map((line) => compareEngines(line, options)),
+    [text, options]
+  );
+  const disagreements = comparisons.filter((c) => !c.agree).length;
+
+  return (
+    <div className={cn("flex flex-col gap-3 text-sm", className)}>
+      <textarea
+        className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 dark:bg-input/30 min-h-20 w-full rounded-md border bg-transparent px-3 py-2 font-mono shadow-xs outline-none focus-visible:ring-[3px]"
+        placeholder={"One date per line, e.g.\nQ3 2025\n10.30 a.m."}
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+      />
+
+      {comparisons.length === 0 ? (
+        <p className="text-muted-foreground text-center">
+          Please enter dates to compare both engines
+        </p>
+      ) : (
+        <>
+          <table className="w-full text-left">
+            <thead className="text-muted-foreground border-b">
+              <tr>
+                <th className="py-1 pr-2 font-medium">Input</th>
+                <th className="py-1 pr-2 font-medium">date-fns-parse</th>
+                <th className="py-1 pr-2 font-medium">moment-parseformat</th>
+                <th className="py-1 font-medium">Round-trips</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparisons.map((comparison, index) => (
+                <tr
+                  key={`${index}-${comparison.input}`}
+                  className={cn(
+                    "border-b last:border-0",
+                    !comparison.agree && "bg-amber-500/10"
+                  )}
+                >
+                  <td className="py-1 pr-2 font-mono">
+                    <span className="flex items-center gap-1">
+                      {!comparison.agree && (
+                        <TriangleAlertIcon className="size-3.5 shrink-0 text-amber-500" />
+                      )}
+                      {comparison.input}
+                    </span>
+                  </td>
+                  <td className="py-1 pr-2 font-mono">
+                    {comparison.ours ?? "—"}
+                  </td>
+                  <td className="py-1 pr-2 font-mono">
+                    {comparison.translated ?? "—"}
+                    {comparison.moment &&
+                      comparison.moment !== comparison.translated && (
+                        <div className="text-muted-foreground text-xs">
+                          {comparison.moment}
+                        </div>
+                      )}
+                  </td>
+                  <td className="py-1">{WINNER_LABELS[comparison.winner]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <Button
+            variant="outline"
+            size="sm"
+            className="self-end"
+            disabled={disagreements === 0}
+            onClick={() => {
+              navigator.clipboard.writeText(toFixtures(comparisons));
+              toast.success("Copied to clipboard", {
+                description: `${disagreements} disagreement${disagreements === 1 ? "" : "s"} as test fixtures`,
+              });
+            }}
+          >
+            <CopyIcon />
+            Copy disagreements as fixtures
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
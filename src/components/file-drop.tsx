@@ -0,0 +1,167 @@
+import { CopyIcon, FileUpIcon } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import type { DragEvent } from "react";
+import {
+  detectColumnFormats,
+  parseTable,
+  type ParseOptions,
+  type Table,
+} from "date-fns-parse";
+
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+import { toast } from "./ui/sonner";
+
+// Failing rows listed inline before the rest are summarized as a count
+const MAX_LISTED_ROWS = 5;
+
+function copy(text: string, description?: string) {
+  navigator.clipboard.writeText(text);
+  toast.success("Copied to clipboard", { description: description ?? text });
+}
+
+function formatFailingRows(rows: number[]): string {
+  if (rows.length === 0) return "—";
+
+  const listed = rows.slice(0, MAX_LISTED_ROWS).join(", ");
+  return rows.length > MAX_LISTED_ROWS
+    ? `${listed} (+${rows.length - MAX_LISTED_ROWS} more)`
+    : listed;
+}
+
+export function FileDrop({
+  options,
+  className,
+}: {
+  options?: ParseOptions;
+  className?: string;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [dropped, setDropped] = useState<{ fileName: string; table: Table }>();
+
+  // Detected again when the options change, e.g. the preferred date order
+  const columns = useMemo(
+    () => dropped && detectColumnFormats(dropped.table, options),
+    [dropped, options]
+  );
+  const result = dropped && columns && { fileName: dropped.fileName, columns };
+
+  async function readFile(file: File) {
+    try {
+      setDropped({
+        fileName: file.name,
+        table: parseTable(await file.text(), file.name),
+      });
+    } catch (error) {
+      setDropped(undefined);
+      toast.error(`Could not read ${file.name}`, {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  function onDrop(event: DragEvent<HTMLDivElement>) {
+    event.preventDefault();
+    setIsDragging(false);
+
+    const file = event.dataTransfer.files[0];
+    if (file) readFile(file);
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <div
+        role="button"
+        tabIndex={0}
+        className={cn(
+          "text-muted-foreground flex cursor-pointer flex-col items-center gap-1 rounded-md border border-dashed px-4 py-3 text-center text-sm transition-colors",
+          isDragging && "border-primary bg-accent text-accent-foreground"
+        )}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" || event.key === " ") {
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={onDrop}
+      >
+        <FileUpIcon className="size-4" />
+        Drop a CSV, TSV or JSON file to detect date columns
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.tsv,.json,text/csv,text/tab-separated-values,application/json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) readFile(file);
+            event.target.value = "";
+          }}
+        />
+      </div>
+
+      {result &&
+        (result.columns.length === 0 ? (
+          <p className="text-muted-foreground text-center text-sm">
+            No date columns found in {result.fileName}.
+          </p>
+        ) : (
+          <div className="flex flex-col gap-2">
+            <table className="w-full text-left text-sm">
+              <thead className="text-muted-foreground border-b">
+                <tr>
+                  <th className="py-1 pr-2 font-medium">Column</th>
+                  <th className="py-1 pr-2 font-medium">Format</th>
+                  <th className="py-1 pr-2 font-medium">Confidence</th>
+                  <th className="py-1 font-medium">Failing rows</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.columns.map((column) => (
+                  <tr key={column.column} className="border-b last:border-0">
+                    <td className="py-1 pr-2">{column.column}</td>
+                    <td className="py-1 pr-2">
+                      <button
+                        type="button"
+                        className="hover:bg-accent rounded-sm px-1 font-mono"
+                        onClick={() => copy(column.format)}
+                      >
+                        {column.format}
+                      </button>
+                    </td>
+                    <td className="py-1 pr-2">
+                      {column.confidence}% ({column.matchCount}/
+                      {column.sampleCount})
+                    </td>
+                    <td className="py-1">
+                      {formatFailingRows(column.failingRows)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <Button
+              variant="outline"
+              size="sm"
+              className="self-end"
+              onClick={() =>
+                copy(
+                  JSON.stringify(result.columns, null, 2),
+                  `${result.columns.length} column formats from ${result.fileName}`
+                )
+              }
+            >
+              <CopyIcon />
+              Copy results
+            </Button>
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { CircleAlertIcon, TriangleAlertIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { explainFormat, type FormatIssue } from "date-fns-parse";
+
+import { cn } from "@/lib/utils";
+import { Input } from "./ui/input";
+
+// The preview re-renders on this interval so time fields stay current
+const PREVIEW_INTERVAL_MS = 1000;
+
+function useNow(intervalMs: number) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
+
+function applySuggestion(formatString: string, issue: FormatIssue): string {
+  const [start, end] = issue.position;
+  return (
+    formatString.slice(0, start) + issue.suggestion + formatString.slice(end)
+  );
+}
+
+export function FormatExplainer({ className }: { className?: string }) {
+  const [formatString, setFormatString] = useState("");
+  const now = useNow(PREVIEW_INTERVAL_MS);
+  const explanation = explainFormat(formatString, { referenceDate: now });
+
+  const parts = [
+    ...explanation.tokens.map((token) => ({
+      position: token.position,
+      text: token.token,
+      description: token.description,
+      value: token.originalValue,
+      isLiteral: false,
+    })),
+    ...explanation.literals.map((literal) => ({
+      position: literal.position,
+      text: literal.text,
+      description: "Literal text",
+      value: "",
+      isLiteral: true,
+    })),
+  ].sort((a, b) => a.position[0] - b.position[0]);
+
+  return (
+    <div className={cn("flex flex-col gap-3 text-sm", className)}>
+      <Input
+        className="font-mono"
+        placeholder="e.g. yyyy-MM-dd'T'HH:mm"
+        value={formatString}
+        aria-invalid={!explanation.isValid}
+        onChange={(event) => setFormatString(event.target.value)}
+      />
+
+      {formatString === "" ? (
+        <p className="text-muted-foreground text-center">
+          Please enter a date-fns format string
+        </p>
+      ) : (
+        <>
+          <div className="rounded-md border px-3 py-2">
+            <div className="text-muted-foreground text-xs">Preview</div>
+            <div className="font-mono">
+              {explanation.preview ?? "date-fns cannot format this pattern"}
+            </div>
+          </div>
+
+          {explanation.issues.length > 0 && (
+            <ul className="flex flex-col gap-1">
+              {explanation.issues.map((issue) => (
+                <li
+                  key={`${issue.position[0]}-${issue.token}`}
+                  className="flex items-start gap-2"
+                >
+                  {issue.severity === "error" ? (
+                    <CircleAlertIcon className="text-destructive mt-0.5 size-4 shrink-0" />
+                  ) : (
+                    <TriangleAlertIcon className="mt-0.5 size-4 shrink-0 text-amber-500" />
+                  )}
+                  <span>
+                    {issue.message}
+                    {issue.suggestion && (
+                      <>
+                        {" "}
+                        <button
+                          type="button"
+                          className="hover:bg-accent rounded-sm px-1 font-mono underline"
+                          onClick={() =>
+                            setFormatString(
+                              applySuggestion(formatString, issue)
+                            )
+                          }
+                        >
+                          Use {issue.suggestion}
+                        </button>
+                      </>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <table className="w-full text-left">
+            <tbody>
+              {parts.map((part) => (
+                <tr
+                  key={part.position[0]}
+                  className={cn(
+                    "border-b last:border-0",
+                    part.isLiteral && "text-muted-foreground"
+                  )}
+                >
+                  <td className="py-1 pr-2 font-mono whitespace-pre">
+                    {part.text}
+                  </td>
+                  <td className="py-1 pr-2">{part.description}</td>
+                  <td className="text-muted-foreground py-1 font-mono">
+                    {part.value}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import type { DateOrder } from "date-fns-parse";
+
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+const ORDERS: { value: DateOrder; label: string; example: string }[] = [
+  { value: "MDY", label: "Month first", example: "03/10/1990" },
+  { value: "DMY", label: "Day first", example: "10/03/1990" },
+  { value: "YMD", label: "Year first", example: "1990/03/10" },
+];
+
+export function usePreferredOrder(storageKey = "date-fns-parse-order") {
+  const [order, setOrder] = useState<DateOrder>(() => {
+    const stored = localStorage.getItem(storageKey);
+    return ORDERS.some((o) => o.value === stored)
+      ? (stored as DateOrder)
+      : "MDY";
+  });
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, order);
+  }, [order, storageKey]);
+
+  return [order, setOrder] as const;
+}
+
+export function OrderToggle({
+  value,
+  onValueChange,
+  className,
+}: {
+  value: DateOrder;
+  onValueChange: (order: DateOrder) => void;
+  className?: string;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className}>
+          {value}
+          <span className="sr-only">Preferred date order</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Preferred date order</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={value}
+          onValueChange={(order) => onValueChange(order as DateOrder)}
+        >
+          {ORDERS.map((order) => (
+            <DropdownMenuRadioItem key={order.value} value={order.value}>
+              {order.label}
+              <span className="text-muted-foreground ml-auto text-xs">
+                {order.example}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * Inputs where our parser and moment-parseformat disagree, with the engine
+ * whose format reproduces the input. New entries can be copied from the
+ * comparison mode of the app.
+ */
+
+import type { EngineFixture } from "./cross-check";
+
+// prettier-ignore
+const ENGINE_FIXTURES: EngineFixture[] = [
+  // Both round-trip; only padding or the preferred order differs
+  { input: "March 10, 1990", ours: "MMMM dd, yyyy", translated: "MMMM d, yyyy", winner: "both" },
+  { input: "Tue Oct 27 2026", ours: "EEE MMM dd yyyy", translated: "EEE MMM d yyyy", winner: "both" },
+  { input: "14:30", ours: "HH:mm", translated: "H:mm", winner: "both" },
+  { input: "10.03.1990", ours: "MM.dd.yyyy", translated: "dd.MM.yyyy", winner: "both" },
+  { input: "03-10-1990", ours: "MM-dd-yyyy", translated: "dd-MM-yyyy", winner: "both" },
+  { input: "2025-07-23T14:30:00Z", ours: "yyyy-MM-dd'T'HH:mm:ssXXX", translated: "yyyy-MM-dd'T'HH:mm:ssxxx", winner: "both" },
+  { input: "12 noon", ours: "h b", translated: "d 'noon'", winner: "both" },
+  { input: "20250723", ours: "yyyyMMdd", translated: "yyyyMMH", winner: "both" },
+
+  // Only our format reproduces the input
+  { input: "Q3 2025", ours: "QQQ yyyy", translated: "QM yyyy", winner: "ours" },
+  { input: "10.30 a.m.", ours: "h.mm aaaa", translated: "d.h aaa.m.", winner: "ours" },
+  { input: "Week 30, 2025", ours: "'Week' w, Y", translated: "I'ee'k M, yyyy", winner: "ours" },
+  { input: "2025.204", ours: "yyyy.DDD", translated: "yyyy.dMM", winner: "ours" },
+  { input: "10 mars 2024", ours: "dd MMMM yyyy", translated: "d MMMs yyyy", winner: "ours" },
+];
+
+export { ENGINE_FIXTURES };
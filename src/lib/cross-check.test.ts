@@ -0,0 +1,55 @@
+/**
+ * Test suite for comparing our parser with moment-parseformat using Bun test framework
+ * Tests the comparison itself and replays the recorded disagreements
+ */
+
+import { test, expect, describe } from "bun:test";
+import { compareEngines, toFixtures } from "./cross-check";
+import { ENGINE_FIXTURES } from "./cross-check.fixtures";
+
+const referenceDate = new Date(2026, 9, 19, 10, 0);
+
+describe("Engine Cross-check", () => {
+  describe("Comparison", () => {
+    test("should agree when both engines infer the same format", () => {
+      expect(compareEngines("2025-07-23", { referenceDate })).toEqual({
+        input: "2025-07-23",
+        ours: "yyyy-MM-dd",
+        moment: "YYYY-MM-DD",
+        translated: "yyyy-MM-dd",
+        agree: true,
+        winner: "both",
+      });
+    });
+
+    test("should name the engine whose format reproduces the input", () => {
+      const comparison = compareEngines("Q3 2025", { referenceDate });
+
+      expect(comparison.agree).toBe(false);
+      expect(comparison.moment).toBe("QM YYYY");
+      expect(comparison.winner).toBe("ours");
+    });
+
+    test("should render only disagreements as fixtures", () => {
+      const comparisons = ["2025-07-23", "14:30"].map((input) =>
+        compareEngines(input, { referenceDate })
+      );
+
+      expect(toFixtures(comparisons)).toBe(
+        '  { input: "14:30", ours: "HH:mm", translated: "H:mm", winner: "both" },'
+      );
+    });
+  });
+
+  describe("Recorded Disagreements", () => {
+    test.each(ENGINE_FIXTURES.map((fixture) => [fixture.input, fixture]))(
+      "%s",
+      (input, fixture) => {
+        const comparison = compareEngines(input, { referenceDate });
+
+        expect(comparison.agree).toBe(false);
+        expect(comparison).toMatchObject(fixture);
+      }
+    );
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Runs an input through both our parser and moment-parseformat, translating
+ * Moment's pattern to date-fns so the two can be compared token for token
+ * Example: "10th of March" -> ours "do 'of' MMMM", moment "Do of MMMM"
+ */
+
+import {
+  checkRoundTrip,
+  convertFromMoment,
+  parseDateStringToFormats,
+  type ParseOptions,
+} from "date-fns-parse";
+import parseFormat from "moment-parseformat";
+
+/**
+ * Which engine's format reproduces the input when date-fns parses and
+ * formats it again
+ */
+type Winner = "both" | "ours" | "moment" | "neither";
+
+interface EngineComparison {
+  input: string;
+  /** Best format from parseDateStringToFormats */
+  ours?: string;
+  /** Pattern moment-parseformat returned, in Moment syntax */
+  moment?: string;
+  /** Moment's pattern translated to date-fns */
+  translated?: string;
+  agree: boolean;
+  winner: Winner;
+}
+
+/**
+ * A recorded disagreement, as kept in cross-check.fixtures.ts
+ */
+type EngineFixture = Pick<
+  EngineComparison,
+  "input" | "ours" | "translated" | "winner"
+>;
+
+function momentFormat(
+  input: string,
+  options: ParseOptions
+): string | undefined {
+  try {
+    return (
+      parseFormat(
+        input,
+        options.preferredOrder ? { preferredOrder: options.preferredOrder } : {}
+      ) || undefined
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+function compareEngines(
+  input: string,
+  options: ParseOptions = {}
+): EngineComparison {
+  const referenceDate = options.referenceDate ?? new Date();
+  const [best] = parseDateStringToFormats(input, {
+    ...options,
+    referenceDate,
+  }).interpretations;
+  const moment = momentFormat(input, options);
+  const translated = moment && convertFromMoment(moment).format;
+
+  const oursWins = best?.roundTrips ?? false;
+  const momentWins =
+    translated !== undefined &&
+    checkRoundTrip(input, { format: translated }, referenceDate).roundTrips;
+
+  return {
+    input,
+    ours: best?.format,
+    moment,
+    translated,
+    agree: best?.format === translated,
+    winner:
+      oursWins && momentWins
+        ? "both"
+        : oursWins
+          ? "ours"
+          : momentWins
+            ? "moment"
+            : "neither",
+  };
+}
+
+/**
+ * Renders the disagreements as entries for cross-check.fixtures.ts
+ */
+function toFixtures(comparisons: EngineComparison[]): string {
+  return comparisons
+    .filter((comparison) => !comparison.agree)
+    .map(({ input, ours, translated, winner }) => {
+      const fixture: EngineFixture = { input, ours, translated, winner };
+      const fields = Object.entries(fixture)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+      return `  { ${fields.join(", ")} },`;
+    })
+    .join("\n");
+}
+
+export {
+  compareEngines,
+  toFixtures,
+  type EngineComparison,
+  type EngineFixture,
+  type Winner,
+};
@@ -0,0 +1,14 @@
+declare module "moment-parseformat" {
+  interface ParseFormatOptions {
+    /** "MDY", "DMY" or "YMD", or one of them per date separator */
+    preferredOrder?: string | Record<string, string>;
+    /** Prefer padded tokens (MM, DD, kk) over unpadded ones */
+    preferLongFormat?: boolean;
+  }
+
+  /** Returns the Moment pattern of a date string */
+  export default function parseFormat(
+    dateString: string,
+    options?: ParseFormatOptions
+  ): string;
+}
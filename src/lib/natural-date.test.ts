@@ -0,0 +1,63 @@
+/**
+ * Test suite for natural-language input using Bun test framework
+ * Tests the fallback from date-fns templates to relative expressions
+ */
+
+import { test, expect, describe } from "bun:test";
+import { interpretInput } from "./natural-date";
+
+const referenceDate = new Date(2026, 9, 19, 10, 0);
+
+describe("Natural-language Input", () => {
+  describe("Templates", () => {
+    test("should keep formatted dates as templates", () => {
+      const result = interpretInput("03/10/1990", { referenceDate });
+      expect(result.kind).toBe("template");
+      if (result.kind !== "template") return;
+      expect(result.result.interpretations[0].format).toBe("MM/dd/yyyy");
+    });
+
+    test("should keep a bare weekday or time as a template", () => {
+      expect(interpretInput("Tuesday", { referenceDate }).kind).toBe(
+        "template"
+      );
+      expect(interpretInput("5pm", { referenceDate }).kind).toBe("template");
+    });
+
+    test("should return a template for input chrono cannot read", () => {
+      expect(interpretInput("hello", { referenceDate }).kind).toBe("template");
+      expect(interpretInput("", { referenceDate }).kind).toBe("template");
+    });
+  });
+
+  describe("Relative Expressions", () => {
+    test("should resolve expressions relative to the reference date", () => {
+      const result = interpretInput("3 days ago", { referenceDate });
+      expect(result).toMatchObject({
+        kind: "relative",
+        text: "3 days ago",
+        date: new Date(2026, 9, 16, 10, 0),
+        format: "yyyy-MM-dd",
+        formatted: "2026-10-16",
+      });
+    });
+
+    test("should include the time and weekday the expression names", () => {
+      const result = interpretInput("next Tuesday at 5pm", { referenceDate });
+      expect(result).toMatchObject({
+        kind: "relative",
+        date: new Date(2026, 9, 27, 17, 0),
+        format: "EEEE yyyy-MM-dd HH:mm",
+        formatted: "Tuesday 2026-10-27 17:00",
+      });
+    });
+
+    test("should fall back when no template has a date field", () => {
+      const result = interpretInput("tomorrow", { referenceDate });
+      expect(result).toMatchObject({
+        kind: "relative",
+        date: new Date(2026, 9, 20, 10, 0),
+      });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Interprets what the user typed: either a formatted date with a date-fns
+ * template, or a natural-language expression ("next Tuesday at 5pm", "3 days
+ * ago") that only means something relative to now
+ * Example: "3 days ago" -> { kind: "relative", format: "yyyy-MM-dd", ... }
+ */
+
+import * as chrono from "chrono-node";
+import { format } from "date-fns";
+import {
+  parseDateStringToFormats,
+  type ParseOptions,
+  type ParseResult,
+} from "date-fns-parse";
+
+interface TemplateResult {
+  kind: "template";
+  result: ParseResult;
+}
+
+interface RelativeResult {
+  kind: "relative";
+  /** The part of the input chrono read as a date, e.g. "next Tuesday" */
+  text: string;
+  /** Absolute date the expression resolves to */
+  date: Date;
+  /** Closest date-fns format for the resolved date */
+  format: string;
+  /** The resolved date in that format */
+  formatted: string;
+}
+
+type InputResult = TemplateResult | RelativeResult;
+
+// Words that make an expression depend on the current date; "Tuesday" alone
+// is a template (EEEE), "next Tuesday" is not
+const RELATIVE_WORDS =
+  /\b(ago|next|last|this|previous|coming|tomorrow|yesterday|today|tonight|now|later|hence|in\s+(\d+|an?|a few)\s+[a-z]+)\b/i;
+
+/**
+ * Picks a format as precise as the expression: the date, the time when the
+ * expression names one, and the weekday when it names that instead of a day
+ */
+function closestFormat(components: chrono.ParsedComponents): string {
+  const namesWeekday =
+    components.isCertain("weekday") && !components.isCertain("day");
+  let formatString = "yyyy-MM-dd";
+
+  if (components.isCertain("second")) {
+    formatString += " HH:mm:ss";
+  } else if (components.isCertain("hour")) {
+    formatString += " HH:mm";
+  }
+
+  return namesWeekday ? `EEEE ${formatString}` : formatString;
+}
+
+/**
+ * Parses the input as a formatted date, falling back to chrono when no
+ * interpretation has any date or time field ("tomorrow") or when the input
+ * is relative to now ("next Tuesday at 5pm"), which no template can express
+ */
+function interpretInput(
+  input: string,
+  options: ParseOptions = {}
+): InputResult {
+  const result = parseDateStringToFormats(input, options);
+  const hasTemplate = result.interpretations.some((i) => i.tokens.length > 0);
+  const [match] = chrono.parse(input, options.referenceDate ?? new Date());
+
+  if (!match || (hasTemplate && !RELATIVE_WORDS.test(match.text))) {
+    return { kind: "template", result };
+  }
+
+  const date = match.start.date();
+  const formatString = closestFormat(match.start);
+
+  return {
+    kind: "relative",
+    text: match.text,
+    date,
+    format: formatString,
+    formatted: format(date, formatString),
+  };
+}
+
+export {
+  interpretInput,
+  type InputResult,
+  type TemplateResult,
+  type RelativeResult,
+};
@@ -1,8 +1,14 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { format } from "date-fns";
+import { TriangleAlertIcon } from "lucide-react";
 import { useMemo, useState } from "react";
 
+import { DialectTabs } from "@/components/dialect-tabs";
+import { EngineComparison } from "@/components/engine-comparison";
+import { FileDrop } from "@/components/file-drop";
+import { FormatExplainer } from "@/components/format-explainer";
 import { ModeToggle } from "@/components/mode-toggle";
+import { OrderToggle, usePreferredOrder } from "@/components/order-toggle";
 import {
   Command,
   CommandEmpty,
@@ -11,7 +17,8 @@ import {
   CommandList,
   CommandShortcut,
 } from "@/components/ui/command";
-import { parseDateStringToFormats } from "@/utils/parse";
+import { Button } from "@/components/ui/button";
+import { interpretInput } from "@/lib/natural-date";
 import { cn } from "@/lib/utils";
 import { toast } from "@/components/ui/sonner";
 
@@ -19,12 +26,29 @@ export const Route = createFileRoute("/")({
   component: App,
 });
 
+const MODES = [
+  { value: "parse", label: "Parse a date" },
+  { value: "explain", label: "Explain a format" },
+  { value: "compare", label: "Compare engines" },
+] as const;
+
 function App() {
+  const [mode, setMode] = useState<(typeof MODES)[number]["value"]>("parse");
   const [value, setValue] = useState("");
+  const [selected, setSelected] = useState("");
+  const [preferredOrder, setPreferredOrder] = usePreferredOrder();
+
+  const parseOptions = useMemo(() => ({ preferredOrder }), [preferredOrder]);
+
+  const input = useMemo(() => {
+    return interpretInput(value, parseOptions);
+  }, [value, parseOptions]);
+  const interpretations =
+    input.kind === "template" ? input.result.interpretations : [];
 
-  const formats = useMemo(() => {
-    return parseDateStringToFormats(value);
-  }, [value]);
+  // The highlighted result, falling back to the best one
+  const selectedInterpretation =
+    interpretations.find((i) => i.format === selected) ?? interpretations[0];
 
   return (
     <div className="relative bg-background flex flex-col gap-4 justify-center items-center h-screen">
@@ -33,48 +57,128 @@ function App() {
           date-fns-parse
         </h1>
 
-        <div className="min-w-64 max-w-96 relative">
-          <Command shouldFilter={false}>
-            <CommandInput
-              placeholder="e.g. 2025-07-23"
-              value={value}
-              onValueChange={(value) => setValue(value)}
-            />
-            {formats.interpretations.length === 0 ? (
-              <CommandList>
-                <CommandEmpty
-                  className={cn(value === "" && "text-muted-foreground")}
-                >
-                  {value === ""
-                    ? "Please enter a date/time string"
-                    : "No results found."}
-                </CommandEmpty>
-              </CommandList>
-            ) : (
-              <CommandList>
-                {formats.interpretations.map((interpretation) => (
-                  <CommandItem
-                    key={interpretation.format}
-                    className="flex justify-between"
-                    onSelect={() => {
-                      navigator.clipboard.writeText(interpretation.format);
-                      toast.success("Copied to clipboard", {
-                        description: interpretation.format,
-                      });
-                    }}
-                  >
-                    {interpretation.format}
-                    <CommandShortcut>
-                      {format(new Date(), interpretation.format)}
-                    </CommandShortcut>
-                  </CommandItem>
-                ))}
-              </CommandList>
-            )}
-          </Command>
+        <div role="tablist" className="flex gap-1">
+          {MODES.map((m) => (
+            <Button
+              key={m.value}
+              role="tab"
+              aria-selected={mode === m.value}
+              variant={mode === m.value ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setMode(m.value)}
+            >
+              {m.label}
+            </Button>
+          ))}
         </div>
+
+        {mode === "explain" ? (
+          <FormatExplainer className="w-96" />
+        ) : mode === "compare" ? (
+          <EngineComparison className="w-[36rem]" options={parseOptions} />
+        ) : (
+          <>
+            <div className="min-w-64 max-w-96 relative">
+              <Command
+                shouldFilter={false}
+                value={selected}
+                onValueChange={setSelected}
+              >
+                <CommandInput
+                  placeholder="e.g. 2025-07-23"
+                  value={value}
+                  onValueChange={(value) => setValue(value)}
+                />
+                {input.kind === "relative" ? (
+                  <CommandList>
+                    <CommandItem
+                      value={input.format}
+                      className="flex justify-between"
+                      onSelect={() => {
+                        navigator.clipboard.writeText(input.format);
+                        toast.success("Copied to clipboard", {
+                          description: input.format,
+                        });
+                      }}
+                    >
+                      <div className="flex flex-col">
+                        <span>{input.format}</span>
+                        <span className="text-muted-foreground text-xs">
+                          Relative expression &ldquo;{input.text}&rdquo;
+                        </span>
+                      </div>
+                      <CommandShortcut>{input.formatted}</CommandShortcut>
+                    </CommandItem>
+                  </CommandList>
+                ) : interpretations.length === 0 ? (
+                  <CommandList>
+                    <CommandEmpty
+                      className={cn(value === "" && "text-muted-foreground")}
+                    >
+                      {value === ""
+                        ? "Please enter a date/time string"
+                        : "No results found."}
+                    </CommandEmpty>
+                  </CommandList>
+                ) : (
+                  <CommandList>
+                    {interpretations.map((interpretation) => (
+                      <CommandItem
+                        key={interpretation.format}
+                        value={interpretation.format}
+                        className="flex justify-between"
+                        onSelect={() => {
+                          navigator.clipboard.writeText(interpretation.format);
+                          toast.success("Copied to clipboard", {
+                            description: interpretation.format,
+                          });
+                        }}
+                      >
+                        <div className="flex flex-col">
+                          <span className="flex items-center gap-1">
+                            {interpretation.format}
+                            {interpretation.warnings.length > 0 && (
+                              <TriangleAlertIcon className="size-3.5 text-amber-500" />
+                            )}
+                          </span>
+                          {interpretation.warnings.map((warning) => (
+                            <span
+                              key={warning}
+                              className="text-muted-foreground text-xs"
+                            >
+                              {warning}
+                            </span>
+                          ))}
+                        </div>
+                        <CommandShortcut>
+                          {interpretation.epochUnit && interpretation.parsedDate
+                            ? format(interpretation.parsedDate, "PPpp")
+                            : format(new Date(), interpretation.format, {
+                                locale: interpretation.locale,
+                                ...interpretation.formatOptions,
+                              })}
+                        </CommandShortcut>
+                      </CommandItem>
+                    ))}
+                  </CommandList>
+                )}
+              </Command>
+              {selectedInterpretation && (
+                <DialectTabs
+                  className="mt-2"
+                  interpretation={selectedInterpretation}
+                />
+              )}
+            </div>
+
+            <FileDrop className="w-96" options={parseOptions} />
+          </>
+        )}
+      </div>
+      <div className="absolute bottom-4 left-4 flex gap-2">
+        <ModeToggle />
+        <OrderToggle value={preferredOrder} onValueChange={setPreferredOrder} />
       </div>
-      <ModeToggle className="absolute bottom-4 left-4" />
     </div>
   );
 }
@@ -14,6 +14,11 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": resolve(process.cwd(), "src"),
+      // Use the library source in development instead of its build output
+      "date-fns-parse": resolve(
+        process.cwd(),
+        "packages/date-fns-parse/src/index.ts"
+      ),
     },
   },
 });